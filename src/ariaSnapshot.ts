@@ -0,0 +1,205 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Compact aria snapshot built from the CDP accessibility tree.
+ * Renders an indented role/name outline (similar to Playwright's aria snapshot)
+ * and tags interactive elements with short refs such as `e42` that Sid Voice
+ * can pass back to `click`/`type`. Iframe content is rendered below its
+ * <iframe> node; refs inside out-of-process frames carry a frame prefix (`f1e42`).
+ */
+
+type AXValue = {
+  type: string;
+  value?: unknown;
+};
+
+export type AXNode = {
+  nodeId: string;
+  ignored: boolean;
+  role?: AXValue;
+  name?: AXValue;
+  value?: AXValue;
+  properties?: { name: string; value: AXValue }[];
+  parentId?: string;
+  childIds?: string[];
+  backendDOMNodeId?: number;
+  frameId?: string;
+};
+
+/**
+ * The accessibility tree of one frame, with the trees of its child frames keyed by the
+ * backend node id of their <iframe> element.
+ */
+export type FrameAXTree = {
+  nodes: AXNode[];
+  refPrefix: string; // Empty for the top-level page, e.g. "f1" for an out-of-process frame
+  frames: Map<number, FrameAXTree>;
+};
+
+export type InteractiveElement = {
+  ref: string;
+  backendNodeId: number;
+  role: string;
+  name: string;
+};
+
+const INTERACTIVE_ROLES = new Set([
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'listbox',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+  'treeitem',
+]);
+
+// Roles that only add nesting noise; their children are hoisted to the parent level.
+const TRANSPARENT_ROLES = new Set([
+  'none',
+  'presentation',
+  'generic',
+  'InlineTextBox',
+  'LineBreak',
+]);
+
+const RENDERED_PROPERTIES = ['checked', 'disabled', 'expanded', 'level', 'pressed', 'selected'];
+
+export function refForBackendNodeId(backendNodeId: number, refPrefix: string = ''): string {
+  return `${refPrefix}e${backendNodeId}`;
+}
+
+export function parseRef(ref: string): { refPrefix: string; backendNodeId: number } | undefined {
+  const match = /^(f\d+)?e(\d+)$/.exec(ref);
+  return match ? { refPrefix: match[1] ?? '', backendNodeId: parseInt(match[2], 10) } : undefined;
+}
+
+export function buildAriaSnapshot(tree: FrameAXTree): string {
+  const lines: string[] = [];
+  renderFrame(tree, 0, lines);
+  return lines.join('\n');
+}
+
+function renderFrame(tree: FrameAXTree, baseDepth: number, lines: string[]): void {
+  const byId = new Map<string, AXNode>();
+  for (const node of tree.nodes)
+    byId.set(node.nodeId, node);
+
+  const root = tree.nodes.find(node => !node.parentId || !byId.has(node.parentId));
+  if (!root)
+    return;
+
+  const visit = (node: AXNode, depth: number, parentName: string) => {
+    const role = String(node.role?.value ?? '');
+    const name = normalizeWhitespace(String(node.name?.value ?? ''));
+    const children = (node.childIds ?? []).map(id => byId.get(id)).filter((child): child is AXNode => !!child);
+
+    if (role === 'RootWebArea' || role === 'WebArea') {
+      for (const child of children)
+        visit(child, depth, name);
+      return;
+    }
+
+    if (role === 'StaticText') {
+      // Text already announced as the accessible name of its parent is redundant.
+      if (name && !parentName.includes(name))
+        lines.push(`${indent(depth)}- text: ${quote(name)}`);
+      return;
+    }
+
+    const ref = refFor(node, role, tree.refPrefix);
+    const frame = node.backendDOMNodeId !== undefined ? tree.frames.get(node.backendDOMNodeId) : undefined;
+    const transparent = node.ignored || (TRANSPARENT_ROLES.has(role) && !name && !ref);
+    if (transparent && !frame) {
+      for (const child of children)
+        visit(child, depth, parentName);
+      return;
+    }
+
+    let line = `${indent(depth)}- ${role}`;
+    if (name)
+      line += ` ${quote(name)}`;
+    for (const attribute of renderProperties(node))
+      line += ` [${attribute}]`;
+    if (ref)
+      line += ` [ref=${ref}]`;
+    const value = normalizeWhitespace(String(node.value?.value ?? ''));
+    if (value)
+      line += `: ${quote(value)}`;
+    lines.push(line);
+
+    for (const child of children)
+      visit(child, depth + 1, name);
+    if (frame)
+      renderFrame(frame, depth + 1, lines);
+  };
+
+  visit(root, baseDepth, '');
+}
+
+/**
+ * Lists the nodes of a frame tree and its child frames together with their ref prefix.
+ */
+export function flattenAXTree(tree: FrameAXTree): { node: AXNode; refPrefix: string }[] {
+  const result = tree.nodes.map(node => ({ node, refPrefix: tree.refPrefix }));
+  for (const frame of tree.frames.values())
+    result.push(...flattenAXTree(frame));
+  return result;
+}
+
+/**
+ * Lists the elements that receive a ref in the snapshot, frame by frame.
+ */
+export function interactiveElements(tree: FrameAXTree): InteractiveElement[] {
+  const result: InteractiveElement[] = [];
+  for (const { node, refPrefix } of flattenAXTree(tree)) {
+    const role = String(node.role?.value ?? '');
+    const ref = refFor(node, role, refPrefix);
+    if (ref)
+      result.push({ ref, backendNodeId: node.backendDOMNodeId!, role, name: normalizeWhitespace(String(node.name?.value ?? '')) });
+  }
+  return result;
+}
+
+function refFor(node: AXNode, role: string, refPrefix: string): string | undefined {
+  if (node.ignored || node.backendDOMNodeId === undefined || role === 'RootWebArea' || role === 'WebArea')
+    return undefined;
+  const focusable = node.properties?.some(p => p.name === 'focusable' && p.value.value === true);
+  if (!INTERACTIVE_ROLES.has(role) && !focusable)
+    return undefined;
+  return refForBackendNodeId(node.backendDOMNodeId, refPrefix);
+}
+
+function renderProperties(node: AXNode): string[] {
+  const result: string[] = [];
+  for (const property of node.properties ?? []) {
+    if (!RENDERED_PROPERTIES.includes(property.name))
+      continue;
+    const value = property.value.value;
+    if (value === false || value === 'false' || value === undefined)
+      continue;
+    result.push(value === true || value === 'true' ? property.name : `${property.name}=${value}`);
+  }
+  return result;
+}
+
+function indent(depth: number): string {
+  return '  '.repeat(depth);
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function quote(text: string): string {
+  return JSON.stringify(text);
+}
@@ -36,6 +36,10 @@ type PageMessage = {
   type: 'disconnectFromSidVoice';
 } | {
   type: 'getSidVoiceStatus';
+} | {
+  type: 'retrySidVoice';
+} | {
+  type: 'closeSidTabs';
 };
 
 class TabShareExtension {
@@ -50,13 +54,12 @@ class TabShareExtension {
   constructor() {
     // Initialize Sid Voice connection
     this._sidVoiceConnection = new SidVoiceConnection();
-    this._sidVoiceConnection.onStatusChange = (connected, email) => {
-      debugLog(`Sid Voice status: ${connected ? 'connected' : 'disconnected'}${email ? ` as ${email}` : ''}`);
+    this._sidVoiceConnection.onStatusChange = status => {
+      debugLog(`Sid Voice status: ${status.state}`);
       // Notify any open status pages
       chrome.runtime.sendMessage({ 
         type: 'sidVoiceStatusUpdate', 
-        connected, 
-        email 
+        ...this._sidVoiceStatus(),
       }).catch(() => {});
     };
     this._sidVoiceConnection.onError = (error) => {
@@ -89,6 +92,16 @@ class TabShareExtension {
     }
   }
 
+  private _sidVoiceStatus() {
+    return {
+      connected: this._sidVoiceConnection.isConnected,
+      email: this._sidVoiceConnection.email,
+      connectedTabId: this._sidVoiceConnection.connectedTabId,
+      protocolVersion: this._sidVoiceConnection.protocolVersion,
+      status: this._sidVoiceConnection.status,
+    };
+  }
+
   // Promise-based message handling is not supported in Chrome: https://issues.chromium.org/issues/40753031
   private _onMessage(message: PageMessage, sender: chrome.runtime.MessageSender, sendResponse: (response: unknown) => void) {
     switch (message.type) {
@@ -116,11 +129,7 @@ class TabShareExtension {
         sendResponse({
           connectedTabId: this._connectedTabId,
           // Include Sid Voice status
-          sidVoice: {
-            connected: this._sidVoiceConnection.isConnected,
-            email: this._sidVoiceConnection.email,
-            connectedTabId: this._sidVoiceConnection.connectedTabId,
-          }
+          sidVoice: this._sidVoiceStatus(),
         });
         return false;
       case 'disconnect':
@@ -148,12 +157,18 @@ class TabShareExtension {
             (error: Error) => sendResponse({ success: false, error: error.message }));
         return true;
       case 'getSidVoiceStatus':
-        sendResponse({
-          connected: this._sidVoiceConnection.isConnected,
-          email: this._sidVoiceConnection.email,
-          connectedTabId: this._sidVoiceConnection.connectedTabId,
-        });
+        sendResponse(this._sidVoiceStatus());
         return false;
+      case 'retrySidVoice':
+        this._sidVoiceConnection.retryNow().then(
+            () => sendResponse({ success: true }),
+            (error: Error) => sendResponse({ success: false, error: error.message }));
+        return true;
+      case 'closeSidTabs':
+        this._sidVoiceConnection.closeSidTabs().then(
+            closed => sendResponse({ success: true, closed }),
+            (error: Error) => sendResponse({ success: false, error: error.message }));
+        return true;
     }
     return false;
   }
@@ -0,0 +1,61 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Browser events pushed to Sid Voice without a request: tab switches, URL and
+ * title changes, finished loads, closed tabs and started downloads. JavaScript
+ * dialogs are reported by the debugger session of the controlled tab instead,
+ * since only CDP sees them.
+ */
+
+export const BROWSER_EVENT_TYPES = [
+  'tabActivated', 'urlChanged', 'titleChanged', 'loadComplete', 'tabClosed', 'dialogOpened', 'downloadStarted',
+] as const;
+
+export type BrowserEventType = typeof BROWSER_EVENT_TYPES[number];
+
+export type BrowserEventEmitter = (event: BrowserEventType, data: Record<string, unknown>) => void;
+
+export function isBrowserEventType(value: unknown): value is BrowserEventType {
+  return BROWSER_EVENT_TYPES.includes(value as BrowserEventType);
+}
+
+/**
+ * Forwards tab and download events to `emit`. Returns a function that removes the listeners.
+ */
+export function watchBrowserEvents(emit: BrowserEventEmitter): () => void {
+  const onActivated = async ({ tabId, windowId }: chrome.tabs.TabActiveInfo) => {
+    const tab = await chrome.tabs.get(tabId).catch(() => undefined);
+    emit('tabActivated', { tabId, windowId, url: tab?.url, title: tab?.title });
+  };
+  const onUpdated = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
+    if (changeInfo.url !== undefined)
+      emit('urlChanged', { tabId, url: changeInfo.url, title: tab.title });
+    if (changeInfo.title !== undefined)
+      emit('titleChanged', { tabId, url: tab.url, title: changeInfo.title });
+    if (changeInfo.status === 'complete')
+      emit('loadComplete', { tabId, url: tab.url, title: tab.title });
+  };
+  const onRemoved = (tabId: number, removeInfo: chrome.tabs.TabRemoveInfo) => {
+    emit('tabClosed', { tabId, windowId: removeInfo.windowId, windowClosing: removeInfo.isWindowClosing });
+  };
+  const onDownloadCreated = (item: chrome.downloads.DownloadItem) => {
+    emit('downloadStarted', {
+      downloadId: item.id,
+      url: item.finalUrl || item.url,
+      filename: item.filename,
+      mime: item.mime,
+      totalBytes: item.totalBytes,
+    });
+  };
+
+  chrome.tabs.onActivated.addListener(onActivated);
+  chrome.tabs.onUpdated.addListener(onUpdated);
+  chrome.tabs.onRemoved.addListener(onRemoved);
+  chrome.downloads.onCreated.addListener(onDownloadCreated);
+  return () => {
+    chrome.tabs.onActivated.removeListener(onActivated);
+    chrome.tabs.onUpdated.removeListener(onUpdated);
+    chrome.tabs.onRemoved.removeListener(onRemoved);
+    chrome.downloads.onCreated.removeListener(onDownloadCreated);
+  };
+}
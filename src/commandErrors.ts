@@ -0,0 +1,71 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Structured errors for Sid Voice command responses. Every failed command is
+ * answered with a stable code Sid can branch on, a human-readable message and
+ * optional details; modules throw `CommandError` where they know the cause and
+ * anything else is classified by `toCommandErrorInfo`.
+ */
+
+export const ERROR_CODES = [
+  'INVALID_MESSAGE', // Not a JSON object with a string type
+  'UNKNOWN_COMMAND',
+  'INVALID_PARAMS',
+  'NO_TAB', // No tab is controlled yet
+  'TAB_NOT_FOUND',
+  'ELEMENT_NOT_FOUND',
+  'ELEMENT_AMBIGUOUS', // A locator matched several elements
+  'NOT_ACTIONABLE', // The element exists but cannot take the action, e.g. hidden, disabled or the wrong kind
+  'TIMEOUT',
+  'CANCELLED', // Aborted by a cancel message or because the connection closed
+  'SUPERSEDED', // Aborted because a later command made it pointless, e.g. a newer navigation
+  'NAVIGATION_FAILED',
+  'BLOCKED_BY_POLICY', // Chrome, an enterprise policy or the page's host refused access
+  'DIALOG_OPEN',
+  'NO_DIALOG',
+  'SCRIPT_ERROR', // A script evaluated in the page threw
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export type CommandErrorInfo = {
+  code: ErrorCode;
+  message: string;
+  details?: Record<string, unknown>;
+};
+
+export class CommandError extends Error {
+  readonly code: ErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'CommandError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// Messages of errors Chrome throws when it refuses the debugger or scripting access to a page.
+const BLOCKED_MESSAGES = [
+  /Cannot access a chrome/i,
+  /Cannot access contents of/i,
+  /Cannot attach to this target/i,
+  /runtime_blocked_hosts/i,
+  /blocked by (?:the )?(?:administrator|policy)/i,
+];
+
+/**
+ * Describes any thrown value as a structured error.
+ */
+export function toCommandErrorInfo(error: unknown): CommandErrorInfo {
+  if (error instanceof CommandError)
+    return { code: error.code, message: error.message, details: error.details };
+  const message = error instanceof Error ? error.message : String(error);
+  if (BLOCKED_MESSAGES.some(pattern => pattern.test(message)))
+    return { code: 'BLOCKED_BY_POLICY', message };
+  if (/^No tab with id/.test(message))
+    return { code: 'TAB_NOT_FOUND', message };
+  return { code: 'INTERNAL_ERROR', message };
+}
@@ -0,0 +1,134 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Serialized execution of Sid Voice commands: commands sharing a queue key run
+ * one at a time, so two clicks or a click and a navigation never interleave, with a deadline for
+ * every command and cancellation by command id. An aborted command is answered
+ * right away and its queue moves on; its abort signal fires, so it stops before
+ * its next input event or poll, and the result of a CDP call still in flight is dropped.
+ */
+
+import { CommandError } from './commandErrors';
+
+// Generous enough for the 30s navigation and waitFor defaults plus the work around them.
+export const DEFAULT_COMMAND_TIMEOUT = 60000;
+
+export type QueueKey = number | string;
+
+export type TaskInfo = {
+  id?: string;
+  type: string;
+  state: 'queued' | 'running';
+};
+
+type Task = TaskInfo & {
+  abort: (error: CommandError) => void;
+};
+
+export class CommandQueue {
+  private _tails = new Map<QueueKey, Promise<void>>();
+  private _tasks = new Map<QueueKey, Task[]>();
+
+  /**
+   * Runs `execute` once every command queued before it under `key` has finished, and rejects
+   * with a TIMEOUT error if it takes longer than `timeout` ms. Queued or running commands for
+   * which `supersedes` returns true are aborted with a SUPERSEDED error first.
+   */
+  async run<T>(key: QueueKey, command: { id?: string; type: string }, timeout: number, execute: (signal: AbortSignal) => Promise<T>, supersedes?: (task: TaskInfo) => boolean): Promise<T> {
+    const tasks = this._tasks.get(key) ?? [];
+    this._tasks.set(key, tasks);
+    if (supersedes) {
+      const by = command.id ? `${command.type} (${command.id})` : command.type;
+      for (const task of tasks.filter(supersedes))
+        task.abort(new CommandError('SUPERSEDED', `Superseded by ${by}`, { supersededBy: command.id }));
+    }
+
+    const controller = new AbortController();
+    let reject!: (error: CommandError) => void;
+    const aborted = new Promise<never>((_, rejectAborted) => reject = rejectAborted);
+    aborted.catch(() => {});
+    const abort = (error: CommandError) => {
+      controller.abort(error);
+      reject(error);
+    };
+    const task: Task = { id: command.id, type: command.type, state: 'queued', abort };
+    tasks.push(task);
+
+    let release!: () => void;
+    const previous = this._tails.get(key) ?? Promise.resolve();
+    const tail = previous.then(() => new Promise<void>(resolve => release = resolve));
+    this._tails.set(key, tail);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([previous, aborted]);
+      task.state = 'running';
+      timer = setTimeout(() => abort(timeoutError(command.type, timeout)), timeout);
+      return await Promise.race([execute(controller.signal), aborted]);
+    } finally {
+      clearTimeout(timer);
+      tasks.splice(tasks.indexOf(task), 1);
+      if (!tasks.length)
+        this._tasks.delete(key);
+      // Only after the previous command released, which matters when this one was aborted while still queued.
+      void previous.then(() => {
+        release();
+        if (this._tails.get(key) === tail)
+          this._tails.delete(key);
+      });
+    }
+  }
+
+  /**
+   * Aborts the queued or running command with the given id. Returns what it was doing, or undefined if there is none.
+   */
+  cancel(id: string): TaskInfo | undefined {
+    for (const tasks of this._tasks.values()) {
+      const task = tasks.find(candidate => candidate.id === id);
+      if (task) {
+        const { type, state } = task;
+        task.abort(new CommandError('CANCELLED', `${type} was cancelled while ${state}`, { state }));
+        return { id, type, state };
+      }
+    }
+    return undefined;
+  }
+
+  cancelAll(reason: string): void {
+    for (const tasks of this._tasks.values()) {
+      for (const task of [...tasks])
+        task.abort(new CommandError('CANCELLED', reason, { state: task.state }));
+    }
+  }
+}
+
+/**
+ * Runs `execute` outside of any queue, e.g. one step of a batch, with its own deadline.
+ * Also rejects as soon as `signal` aborts. Either way the signal passed to `execute` aborts
+ * too, so the step stops instead of running on next to whatever comes after it.
+ */
+export async function withDeadline<T>(type: string, timeout: number, signal: AbortSignal, execute: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+  const deadline = new Promise<never>((_, reject) => {
+    const abort = (error: unknown) => {
+      controller.abort(error);
+      reject(error);
+    };
+    timer = setTimeout(() => abort(timeoutError(type, timeout)), timeout);
+    onAbort = () => abort(signal.reason);
+    signal.addEventListener('abort', onAbort);
+  });
+  try {
+    signal.throwIfAborted();
+    return await Promise.race([execute(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', onAbort);
+  }
+}
+
+function timeoutError(type: string, timeout: number): CommandError {
+  return new CommandError('TIMEOUT', `${type} did not finish within ${timeout}ms`, { commandTimeout: timeout });
+}
@@ -0,0 +1,224 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Readable page content for Sid Voice: the main content of the page (or of a
+ * chosen region) converted to Markdown with headings, lists, links, code
+ * blocks and tables, and navigation, banners and sidebars left out. Long
+ * content is returned in chunks with a cursor to continue from.
+ */
+
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor, ElementHandle } from './pageExecutor';
+
+export const DEFAULT_MAX_CONTENT_LENGTH = 10000;
+
+export type ExtractOptions = {
+  maxLength?: number; // Characters per chunk
+  cursor?: string; // From `nextCursor` of the previous chunk
+  includeLinks?: boolean; // Render links as [text](url) instead of plain text
+};
+
+export type ExtractedContent = {
+  content: string; // Markdown
+  totalLength: number;
+  nextCursor?: string; // Set when the content continues
+};
+
+/**
+ * Extracts the main content of the page, or of `element` (which may be inside an iframe).
+ * The page is extracted again for every chunk, so chunks may shift if it changes in between.
+ */
+export async function extractContent(page: PageExecutor, options: ExtractOptions = {}, element?: ElementHandle): Promise<ExtractedContent> {
+  const maxLength = options.maxLength ?? DEFAULT_MAX_CONTENT_LENGTH;
+  if (!Number.isInteger(maxLength) || maxLength <= 0)
+    throw new CommandError('INVALID_PARAMS', 'maxLength must be a positive integer');
+  const start = options.cursor === undefined ? 0 : Number(options.cursor);
+  if (!Number.isInteger(start) || start < 0)
+    throw new CommandError('INVALID_PARAMS', `Invalid cursor: ${options.cursor}`);
+
+  const includeLinks = !!options.includeLinks;
+  const markdown = element
+    ? await element.session.callOn(element.objectId, extractMarkdownInPage, includeLinks)
+    : await page.evaluate(extractMarkdownInPage, includeLinks);
+  if (start > markdown.length)
+    throw new CommandError('INVALID_PARAMS', 'The cursor is past the end of the content, the page may have changed');
+
+  let end = Math.min(start + maxLength, markdown.length);
+  if (end < markdown.length) {
+    // Prefer to break between blocks, as long as that keeps at least half of the chunk.
+    const blockBreak = markdown.lastIndexOf('\n\n', end);
+    if (blockBreak > start + maxLength / 2)
+      end = blockBreak + 2;
+  }
+  return {
+    content: markdown.slice(start, end).trim(),
+    totalLength: markdown.length,
+    nextCursor: end < markdown.length ? String(end) : undefined,
+  };
+}
+
+function extractMarkdownInPage(this: Element | Document, includeLinks: boolean): string {
+  const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'BUTTON', 'INPUT', 'SELECT', 'TEXTAREA', 'DIALOG']);
+  const BOILERPLATE_TAGS = new Set(['NAV', 'HEADER', 'FOOTER', 'ASIDE']);
+  const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'menu', 'menubar', 'toolbar', 'dialog']);
+  const BLOCK_TAGS = new Set([
+    'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION', 'FIGURE', 'FORM',
+    'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'UL',
+  ]);
+
+  // Without an explicit region, use the page's main landmark or its only article.
+  let root: Element;
+  if (this instanceof Document) {
+    const articles = this.querySelectorAll('article');
+    root = this.querySelector('main, [role="main"]') ?? (articles.length === 1 ? articles[0] : null) ?? this.body ?? this.documentElement;
+  } else {
+    root = this;
+  }
+  // Boilerplate is only stripped below the chosen root, so a region can still be a <nav>.
+  const isBoilerplate = (element: Element) => element !== root && (BOILERPLATE_TAGS.has(element.tagName) || BOILERPLATE_ROLES.has(element.getAttribute('role') ?? ''));
+  const isHidden = (element: Element) => {
+    if (element.getAttribute('aria-hidden') === 'true' || (element as HTMLElement).hidden)
+      return true;
+    const style = getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+  const childNodesOf = (node: Node): Node[] => {
+    if (node instanceof Element && node.shadowRoot)
+      return Array.from(node.shadowRoot.childNodes);
+    if (node instanceof HTMLSlotElement)
+      return node.assignedNodes({ flatten: true });
+    return Array.from(node.childNodes);
+  };
+  const collapse = (text: string) => text.replace(/\s+/g, ' ');
+  const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, ' ').trim();
+
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE)
+      return collapse(node.textContent ?? '');
+    if (!(node instanceof Element) || SKIPPED_TAGS.has(node.tagName.toUpperCase()) || isHidden(node))
+      return '';
+    const content = () => childNodesOf(node).map(inline).join('');
+    switch (node.tagName) {
+      case 'BR':
+        return '\n';
+      case 'CODE':
+      case 'KBD':
+      case 'SAMP': {
+        const code = node.textContent ?? '';
+        return code.includes('`') ? `\`\` ${code} \`\`` : `\`${code}\``;
+      }
+      case 'STRONG':
+      case 'B': {
+        const text = content().trim();
+        return text ? `**${text}**` : '';
+      }
+      case 'EM':
+      case 'I': {
+        const text = content().trim();
+        return text ? `*${text}*` : '';
+      }
+      case 'DEL':
+      case 'S': {
+        const text = content().trim();
+        return text ? `~~${text}~~` : '';
+      }
+      case 'A': {
+        const text = content().trim();
+        const href = (node as HTMLAnchorElement).href;
+        if (!includeLinks || !text || !href || href.startsWith('javascript:'))
+          return text;
+        return `[${text}](${href})`;
+      }
+      case 'IMG': {
+        const alt = (node as HTMLImageElement).alt.trim();
+        if (!alt)
+          return '';
+        return includeLinks ? `![${alt}](${(node as HTMLImageElement).src})` : alt;
+      }
+      default:
+        return content();
+    }
+  };
+
+  const lines: string[] = [];
+  const pushBlock = (text: string) => {
+    if (text.trim())
+      lines.push(text.replace(/[ \t]+\n/g, '\n').trim(), '');
+  };
+
+  const table = (element: HTMLTableElement) => {
+    const rows = Array.from(element.rows)
+        .filter(row => !isHidden(row))
+        .map(row => Array.from(row.cells).map(cell => escapeCell(inline(cell))));
+    if (!rows.length)
+      return;
+    const width = Math.max(...rows.map(row => row.length));
+    const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+    const [header, ...body] = rows;
+    pushBlock([
+      `| ${pad(header).join(' | ')} |`,
+      `| ${Array(width).fill('---').join(' | ')} |`,
+      ...body.map(row => `| ${pad(row).join(' | ')} |`),
+    ].join('\n'));
+  };
+
+  const list = (element: Element, depth: number): string[] => {
+    const ordered = element.tagName === 'OL';
+    let index = Number(element.getAttribute('start') ?? 1);
+    const items: string[] = [];
+    for (const item of childNodesOf(element)) {
+      if (!(item instanceof Element) || item.tagName !== 'LI' || isHidden(item))
+        continue;
+      const marker = ordered ? `${index++}.` : '-';
+      const text = childNodesOf(item).filter(child => !(child instanceof Element && (child.tagName === 'UL' || child.tagName === 'OL'))).map(inline).join('').trim();
+      items.push(`${'  '.repeat(depth)}${marker} ${text}`);
+      for (const nested of Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL'))
+        items.push(...list(nested, depth + 1));
+    }
+    return items;
+  };
+
+  const block = (element: Element) => {
+    if (SKIPPED_TAGS.has(element.tagName.toUpperCase()) || isBoilerplate(element) || isHidden(element))
+      return;
+    const tag = element.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      pushBlock(`${'#'.repeat(Number(tag[1]))} ${inline(element).trim()}`);
+    } else if (tag === 'PRE') {
+      const language = /(?:language|lang)-(\w+)/.exec(element.className + ' ' + (element.querySelector('code')?.className ?? ''))?.[1] ?? '';
+      pushBlock(`\`\`\`${language}\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\``);
+    } else if (tag === 'UL' || tag === 'OL') {
+      pushBlock(list(element, 0).join('\n'));
+    } else if (tag === 'TABLE') {
+      table(element as HTMLTableElement);
+    } else if (tag === 'BLOCKQUOTE') {
+      const start = lines.length;
+      blocks(element);
+      const quoted = lines.splice(start).join('\n').trim();
+      pushBlock(quoted.split('\n').map(line => line ? `> ${line}` : '>').join('\n'));
+    } else if (tag === 'HR') {
+      pushBlock('---');
+    } else {
+      blocks(element);
+    }
+  };
+
+  // Mixed content: runs of inline nodes become paragraphs, block elements are rendered on their own.
+  const blocks = (parent: Node) => {
+    let run = '';
+    for (const child of childNodesOf(parent)) {
+      if (child instanceof Element && (BLOCK_TAGS.has(child.tagName) || child.shadowRoot || isBoilerplate(child))) {
+        pushBlock(run);
+        run = '';
+        block(child);
+      } else {
+        run += inline(child);
+      }
+    }
+    pushBlock(run);
+  };
+
+  block(root);
+  return lines.join('\n').trim();
+}
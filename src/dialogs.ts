@@ -0,0 +1,45 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * JavaScript dialogs (alert, confirm, prompt, beforeunload) in the Sid Voice
+ * controlled tab. An open dialog blocks every script and input in the page, so
+ * it is either answered right away according to the dialog policy or left for
+ * Sid to answer with `handleDialog`.
+ */
+
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor } from './pageExecutor';
+
+// 'ask' leaves dialogs open for Sid (or the user); 'accept' and 'dismiss' answer them unattended.
+export const DIALOG_POLICIES = ['ask', 'accept', 'dismiss'] as const;
+
+export type DialogPolicy = typeof DIALOG_POLICIES[number];
+
+export type JavaScriptDialog = {
+  type: 'alert' | 'confirm' | 'prompt' | 'beforeunload';
+  message: string;
+  url: string;
+  defaultPrompt?: string;
+};
+
+export function isDialogPolicy(value: unknown): value is DialogPolicy {
+  return DIALOG_POLICIES.includes(value as DialogPolicy);
+}
+
+export function describeDialog(dialog: JavaScriptDialog): string {
+  return dialog.message ? `${dialog.type} dialog ${JSON.stringify(dialog.message)}` : `${dialog.type} dialog`;
+}
+
+/**
+ * Accepts or dismisses the open dialog. `promptText` is typed into prompt dialogs before accepting;
+ * without it the prompt's default value is used.
+ */
+export async function answerDialog(page: PageExecutor, dialog: JavaScriptDialog, accept: boolean, promptText?: string): Promise<void> {
+  if (promptText !== undefined && dialog.type !== 'prompt')
+    throw new CommandError('INVALID_PARAMS', `promptText only applies to prompt dialogs, the open one is a ${dialog.type} dialog`);
+  await page.send('Page.handleJavaScriptDialog', {
+    accept,
+    promptText: accept && dialog.type === 'prompt' ? promptText ?? dialog.defaultPrompt ?? '' : undefined,
+  });
+}
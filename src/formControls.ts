@@ -0,0 +1,143 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Form controls for Sid Voice: <select> options, checkboxes, radio buttons and
+ * switches, and inputs with structured values (date, time, range, color).
+ * Each helper fires the input/change events frameworks listen to and returns
+ * the control's resulting state.
+ */
+
+import { waitForActionablePoint, dispatchClick } from './input';
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor } from './pageExecutor';
+
+// A string matches an option's value first, then its label.
+export type OptionSpec = string | { value?: string; label?: string; index?: number };
+
+export type SelectState = {
+  value: string;
+  selectedOptions: { value: string; label: string; index: number }[];
+};
+
+export type CheckState = {
+  checked: boolean;
+};
+
+export type InputValueState = {
+  type: string;
+  value: string;
+};
+
+export async function selectOption(page: PageExecutor, objectId: string, options: OptionSpec[]): Promise<SelectState> {
+  if (!options.length)
+    throw new CommandError('INVALID_PARAMS', 'selectOption needs at least one option');
+  const result = await page.callOn(objectId, selectOptionInPage, options);
+  if (typeof result === 'string')
+    throw new CommandError('NOT_ACTIONABLE', result);
+  return result;
+}
+
+/**
+ * Checks or unchecks a checkbox, radio button or switch by clicking it like a user would,
+ * then verifies the new state. Controls already in the requested state are left alone.
+ */
+export async function setChecked(page: PageExecutor, objectId: string, checked: boolean, timeout?: number, signal?: AbortSignal): Promise<CheckState> {
+  const before = await readCheckedState(page, objectId);
+  if (before === checked)
+    return { checked };
+  const isRadio = await page.callOn(objectId, function(this: Element) {
+    return (this instanceof HTMLInputElement && this.type === 'radio') || this.getAttribute('role') === 'radio';
+  });
+  if (!checked && isRadio)
+    throw new CommandError('NOT_ACTIONABLE', 'A radio button cannot be unchecked, select another option in the group instead');
+
+  const point = await waitForActionablePoint(page, objectId, timeout, signal);
+  await dispatchClick(page, point, {}, signal);
+  const after = await readCheckedState(page, objectId);
+  if (after !== checked)
+    throw new CommandError('NOT_ACTIONABLE', `Clicking did not ${checked ? 'check' : 'uncheck'} the element`);
+  return { checked: after };
+}
+
+/**
+ * Sets the value of date, time, datetime-local, month, week, range, color and number inputs,
+ * which cannot be typed into reliably.
+ */
+export async function setInputValue(page: PageExecutor, objectId: string, value: string): Promise<InputValueState> {
+  const result = await page.callOn(objectId, function(this: Element, value: string): InputValueState | string {
+    const supported = ['date', 'time', 'datetime-local', 'month', 'week', 'range', 'color', 'number'];
+    const input = this instanceof HTMLInputElement ? this : this.querySelector('input');
+    if (!input || !supported.includes(input.type))
+      return `setInputValue supports <input> elements of type ${supported.join(', ')}`;
+    if (input.disabled || input.readOnly)
+      return 'Element is disabled or read-only';
+    // Go through the prototype setter so frameworks that track the value (React) see the change.
+    Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!.call(input, value);
+    // Browsers sanitize invalid values to "" (or clamp ranges), so compare what stuck.
+    if (input.value !== value && input.type !== 'range' && input.type !== 'color')
+      return `Invalid value ${JSON.stringify(value)} for <input type=${input.type}>`;
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    input.dispatchEvent(new Event('change', { bubbles: true }));
+    return { type: input.type, value: input.value };
+  }, value);
+  if (typeof result === 'string')
+    throw new CommandError('NOT_ACTIONABLE', result);
+  return result;
+}
+
+async function readCheckedState(page: PageExecutor, objectId: string): Promise<boolean> {
+  const state = await page.callOn(objectId, function(this: Element): boolean | string {
+    const control = this instanceof HTMLLabelElement && this.control ? this.control : this;
+    if (control instanceof HTMLInputElement && (control.type === 'checkbox' || control.type === 'radio'))
+      return control.checked;
+    const ariaChecked = control.getAttribute('aria-checked') ?? control.getAttribute('aria-pressed');
+    if (ariaChecked !== null)
+      return ariaChecked === 'true';
+    return 'Element is not a checkbox, radio button or switch';
+  });
+  if (typeof state === 'string')
+    throw new CommandError('NOT_ACTIONABLE', state);
+  return state;
+}
+
+function selectOptionInPage(this: Element, specs: OptionSpec[]): SelectState | string {
+  const select = this instanceof HTMLSelectElement ? this : this.querySelector('select');
+  if (!select)
+    return 'Element is not a <select>. For custom dropdowns, click it and then click the option.';
+  if (select.disabled)
+    return 'Element is disabled';
+  if (specs.length > 1 && !select.multiple)
+    return 'Only one option can be selected in a single-select <select>';
+
+  const options = Array.from(select.options);
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const matched: HTMLOptionElement[] = [];
+  for (const spec of specs) {
+    let option: HTMLOptionElement | undefined;
+    if (typeof spec === 'string')
+      option = options.find(o => o.value === spec) ?? options.find(o => normalize(o.label) === normalize(spec));
+    else if (spec.index !== undefined)
+      option = options[spec.index];
+    else if (spec.value !== undefined)
+      option = options.find(o => o.value === spec.value);
+    else if (spec.label !== undefined)
+      option = options.find(o => normalize(o.label) === normalize(spec.label!));
+    if (!option) {
+      const available = options.map(o => JSON.stringify(normalize(o.label))).join(', ');
+      return `No option matches ${JSON.stringify(spec)}. Available options: ${available}`;
+    }
+    if (option.disabled)
+      return `Option ${JSON.stringify(normalize(option.label))} is disabled`;
+    matched.push(option);
+  }
+
+  for (const option of options)
+    option.selected = matched.includes(option);
+  select.dispatchEvent(new Event('input', { bubbles: true }));
+  select.dispatchEvent(new Event('change', { bubbles: true }));
+  return {
+    value: select.value,
+    selectedOptions: Array.from(select.selectedOptions).map(o => ({ value: o.value, label: normalize(o.label), index: o.index })),
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Trusted input for Sid Voice actions. Elements are scrolled into view and
+ * checked for actionability (attached, visible, stable, enabled, not covered)
+ * before real `Input.dispatchMouseEvent` events are sent at their center.
+ * Drags move through intermediate points and switch to `Input.dispatchDragEvent`
+ * when the page starts a native HTML5 drag. Keyboard input goes through `Input.insertText` and `Input.dispatchKeyEvent`.
+ */
+
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor } from './pageExecutor';
+
+export type MouseButton = 'left' | 'right' | 'middle';
+export type ModifierKey = 'Alt' | 'Control' | 'Meta' | 'Shift';
+
+export type ClickOptions = {
+  button?: MouseButton;
+  clickCount?: number;
+  modifiers?: ModifierKey[];
+};
+
+export type Point = { x: number; y: number };
+
+type Actionability = { point: Point } | { reason: string };
+
+type KeyDefinition = {
+  key: string;
+  code: string;
+  keyCode: number;
+  text?: string;
+};
+
+export const DEFAULT_ACTION_TIMEOUT = 5000;
+
+const RETRY_INTERVAL = 100;
+
+const DEFAULT_DRAG_STEPS = 10;
+
+// Bit flags used by the `modifiers` field of CDP Input events.
+const MODIFIER_BITS: Record<ModifierKey, number> = {
+  Alt: 1,
+  Control: 2,
+  Meta: 4,
+  Shift: 8,
+};
+
+const KEY_DEFINITIONS: Record<string, KeyDefinition> = {
+  Enter: { key: 'Enter', code: 'Enter', keyCode: 13, text: '\r' },
+  Tab: { key: 'Tab', code: 'Tab', keyCode: 9 },
+  Escape: { key: 'Escape', code: 'Escape', keyCode: 27 },
+  Backspace: { key: 'Backspace', code: 'Backspace', keyCode: 8 },
+  Delete: { key: 'Delete', code: 'Delete', keyCode: 46 },
+  Space: { key: ' ', code: 'Space', keyCode: 32, text: ' ' },
+  ArrowUp: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  ArrowDown: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  ArrowLeft: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  ArrowRight: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  Home: { key: 'Home', code: 'Home', keyCode: 36 },
+  End: { key: 'End', code: 'End', keyCode: 35 },
+  PageUp: { key: 'PageUp', code: 'PageUp', keyCode: 33 },
+  PageDown: { key: 'PageDown', code: 'PageDown', keyCode: 34 },
+  Shift: { key: 'Shift', code: 'ShiftLeft', keyCode: 16 },
+  Control: { key: 'Control', code: 'ControlLeft', keyCode: 17 },
+  Alt: { key: 'Alt', code: 'AltLeft', keyCode: 18 },
+  Meta: { key: 'Meta', code: 'MetaLeft', keyCode: 91 },
+};
+for (let i = 1; i <= 12; i++)
+  KEY_DEFINITIONS[`F${i}`] = { key: `F${i}`, code: `F${i}`, keyCode: 111 + i };
+
+// Aliases people (and speech-to-text) commonly use for key names.
+const KEY_ALIASES: Record<string, string> = {
+  Esc: 'Escape',
+  Return: 'Enter',
+  Ctrl: 'Control',
+  Cmd: 'Meta',
+  Command: 'Meta',
+  Option: 'Alt',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+};
+
+export function modifiersMask(modifiers: ModifierKey[] = []): number {
+  let mask = 0;
+  for (const modifier of modifiers) {
+    if (!(modifier in MODIFIER_BITS))
+      throw new CommandError('INVALID_PARAMS', `Unknown modifier key: ${modifier}`);
+    mask |= MODIFIER_BITS[modifier];
+  }
+  return mask;
+}
+
+/**
+ * Scrolls the element into view and waits until it can receive pointer input.
+ * Returns the top-level viewport point at the element's center (also for elements
+ * inside iframes), or throws with the reason the element was still not actionable
+ * when `timeout` expired.
+ */
+export async function waitForActionablePoint(page: PageExecutor, objectId: string, timeout: number = DEFAULT_ACTION_TIMEOUT, signal?: AbortSignal): Promise<Point> {
+  const deadline = Date.now() + timeout;
+  while (true) {
+    signal?.throwIfAborted();
+    // Fails for elements without a layout box; the check below reports those as not visible.
+    await page.send('DOM.scrollIntoViewIfNeeded', { objectId }).catch(() => {});
+    const result = await page.callOn(objectId, checkActionabilityInPage);
+    if ('point' in result)
+      return await page.toViewportPoint(objectId, result.point);
+    if (Date.now() >= deadline)
+      throw new CommandError('NOT_ACTIONABLE', `${result.reason} (gave up after ${timeout}ms)`, { reason: result.reason, timeout });
+    await new Promise(resolve => setTimeout(resolve, RETRY_INTERVAL));
+  }
+}
+
+export async function dispatchClick(page: PageExecutor, point: Point, options: ClickOptions = {}, signal?: AbortSignal): Promise<void> {
+  const button = options.button ?? 'left';
+  const clickCount = options.clickCount ?? 1;
+  const modifiers = modifiersMask(options.modifiers);
+
+  await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x: point.x, y: point.y, modifiers }, signal);
+  for (let count = 1; count <= clickCount; count++) {
+    await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mousePressed', x: point.x, y: point.y, button, clickCount: count, modifiers }, signal);
+    await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x: point.x, y: point.y, button, clickCount: count, modifiers }, signal);
+  }
+}
+
+export async function dispatchHover(page: PageExecutor, point: Point, signal?: AbortSignal): Promise<void> {
+  await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x: point.x, y: point.y }, signal);
+}
+
+/**
+ * Presses the mouse at `from`, moves to `to` in `steps` intermediate moves and releases it.
+ * Library drag handlers see the plain mouse events; native HTML5 drags are intercepted and
+ * finished with drag events so `dragenter`/`dragover`/`drop` fire at the target.
+ */
+export async function dispatchDrag(page: PageExecutor, from: Point, to: Point, steps: number = DEFAULT_DRAG_STEPS, signal?: AbortSignal): Promise<{ nativeDrag: boolean }> {
+  let dragData: unknown;
+  const unsubscribe = page.onEvent((method, params) => {
+    if (method === 'Input.dragIntercepted')
+      dragData = params.data;
+  });
+  await page.top.send('Input.setInterceptDrags', { enabled: true });
+  try {
+    await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x: from.x, y: from.y }, signal);
+    await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mousePressed', x: from.x, y: from.y, button: 'left', buttons: 1, clickCount: 1 }, signal);
+    for (let step = 1; step <= steps; step++) {
+      const x = from.x + (to.x - from.x) * step / steps;
+      const y = from.y + (to.y - from.y) * step / steps;
+      await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y, button: 'left', buttons: 1 }, signal);
+      // Give drag libraries a frame to react to each move.
+      await new Promise(resolve => setTimeout(resolve, 16));
+      if (dragData)
+        break;
+    }
+
+    if (dragData) {
+      for (const type of ['dragEnter', 'dragOver', 'drop'])
+        await sendInput(page, 'Input.dispatchDragEvent', { type, x: to.x, y: to.y, data: dragData }, signal);
+    }
+    await sendInput(page, 'Input.dispatchMouseEvent', { type: 'mouseReleased', x: to.x, y: to.y, button: 'left', buttons: 0, clickCount: 1 }, signal);
+    return { nativeDrag: !!dragData };
+  } finally {
+    unsubscribe();
+    await page.top.send('Input.setInterceptDrags', { enabled: false }).catch(() => {});
+  }
+}
+
+/**
+ * Focuses an editable element (or the first editable descendant of a wrapper) and
+ * either selects its content, so the next insertion replaces it, or moves the caret to the end.
+ */
+export async function focusForTyping(page: PageExecutor, objectId: string, clear: boolean): Promise<void> {
+  await page.send('DOM.scrollIntoViewIfNeeded', { objectId }).catch(() => {});
+  const error = await page.callOn(objectId, focusForTypingInPage, clear);
+  if (error)
+    throw new CommandError('NOT_ACTIONABLE', error);
+}
+
+/**
+ * Presses a key or chord such as "Enter", "Control+Enter" or "Shift+Tab" in the focused element.
+ */
+export async function pressKey(page: PageExecutor, chord: string, signal?: AbortSignal): Promise<void> {
+  const { modifiers, key } = parseChord(chord);
+  let mask = 0;
+  for (const modifier of modifiers) {
+    mask |= MODIFIER_BITS[modifier];
+    await dispatchKey(page, 'rawKeyDown', KEY_DEFINITIONS[modifier], mask, signal);
+  }
+  // Shortcuts with Control/Alt/Meta must not insert the key's text.
+  const producesText = !(mask & (MODIFIER_BITS.Alt | MODIFIER_BITS.Control | MODIFIER_BITS.Meta));
+  await dispatchKey(page, producesText && key.text ? 'keyDown' : 'rawKeyDown', key, mask, signal);
+  await dispatchKey(page, 'keyUp', key, mask, signal);
+  for (const modifier of [...modifiers].reverse()) {
+    mask &= ~MODIFIER_BITS[modifier];
+    await dispatchKey(page, 'keyUp', KEY_DEFINITIONS[modifier], mask, signal);
+  }
+}
+
+/**
+ * Types text into the focused element. Without a delay the text is inserted in one
+ * `Input.insertText` call; with a delay each character is sent as its own key press.
+ */
+export async function typeText(page: PageExecutor, text: string, delay: number = 0, signal?: AbortSignal): Promise<void> {
+  if (!delay) {
+    await sendInput(page, 'Input.insertText', { text }, signal);
+    return;
+  }
+  for (const char of text) {
+    const key = char === '\n' ? KEY_DEFINITIONS.Enter : characterKey(char);
+    if (key) {
+      await dispatchKey(page, 'keyDown', key, 0, signal);
+      await dispatchKey(page, 'keyUp', key, 0, signal);
+    } else {
+      await sendInput(page, 'Input.insertText', { text: char }, signal);
+    }
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
+
+function parseChord(chord: string): { modifiers: ModifierKey[]; key: KeyDefinition } {
+  // "Control++" presses the plus key, so a trailing empty token stands for "+".
+  const tokens = chord.split('+');
+  if (tokens.length > 1 && tokens[tokens.length - 1] === '')
+    tokens.splice(-2, 2, '+');
+  const names = tokens.map(token => KEY_ALIASES[token.trim()] ?? token.trim());
+  const keyName = names.pop()!;
+  const modifiers = names.map(name => {
+    if (!(name in MODIFIER_BITS))
+      throw new CommandError('INVALID_PARAMS', `Unknown modifier key "${name}" in "${chord}"`);
+    return name as ModifierKey;
+  });
+  const key = KEY_DEFINITIONS[keyName] ?? characterKey(keyName);
+  if (!key)
+    throw new CommandError('INVALID_PARAMS', `Unknown key "${keyName}" in "${chord}"`);
+  return { modifiers, key };
+}
+
+function characterKey(char: string): KeyDefinition | undefined {
+  if (char.length !== 1)
+    return undefined;
+  if (/[a-z]/i.test(char))
+    return { key: char, code: `Key${char.toUpperCase()}`, keyCode: char.toUpperCase().charCodeAt(0), text: char };
+  if (/[0-9]/.test(char))
+    return { key: char, code: `Digit${char}`, keyCode: char.charCodeAt(0), text: char };
+  if (char === ' ')
+    return KEY_DEFINITIONS.Space;
+  // Punctuation codes depend on the keyboard layout, so only the key and text are sent.
+  return { key: char, code: '', keyCode: 0, text: char };
+}
+
+async function dispatchKey(page: PageExecutor, type: 'keyDown' | 'rawKeyDown' | 'keyUp', key: KeyDefinition, modifiers: number, signal?: AbortSignal): Promise<void> {
+  await sendInput(page, 'Input.dispatchKeyEvent', {
+    type,
+    key: key.key,
+    code: key.code,
+    windowsVirtualKeyCode: key.keyCode,
+    text: type === 'keyDown' ? key.text : undefined,
+    unmodifiedText: type === 'keyDown' ? key.text : undefined,
+    modifiers,
+  }, signal);
+}
+
+// Checks the signal before every event, so an aborted command stops clicking or typing halfway
+// instead of running on next to the commands after it.
+async function sendInput(page: PageExecutor, method: string, params: object, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  await page.top.send(method, params);
+}
+
+async function checkActionabilityInPage(this: Element): Promise<Actionability> {
+  if (!this.isConnected)
+    return { reason: 'Element is no longer attached to the page' };
+
+  const before = this.getBoundingClientRect();
+  // requestAnimationFrame does not fire in background tabs, so cap the wait.
+  await new Promise<void>(resolve => {
+    requestAnimationFrame(() => resolve());
+    setTimeout(resolve, 100);
+  });
+  const rect = this.getBoundingClientRect();
+
+  const style = getComputedStyle(this);
+  if (!rect.width || !rect.height || style.visibility !== 'visible')
+    return { reason: 'Element is not visible' };
+  if (rect.x !== before.x || rect.y !== before.y || rect.width !== before.width || rect.height !== before.height)
+    return { reason: 'Element is not stable, it is still moving' };
+
+  const control = this.closest('button, input, select, textarea, option, optgroup, fieldset') as HTMLButtonElement | null;
+  if (control?.disabled || this.closest('[aria-disabled="true"]'))
+    return { reason: 'Element is disabled' };
+
+  const x = rect.x + rect.width / 2;
+  const y = rect.y + rect.height / 2;
+  let hit = this.ownerDocument.elementFromPoint(x, y);
+  while (hit?.shadowRoot) {
+    const inner = hit.shadowRoot.elementFromPoint(x, y);
+    if (!inner || inner === hit)
+      break;
+    hit = inner;
+  }
+  if (!hit)
+    return { reason: 'Element is outside of the viewport' };
+
+  // Walk up through shadow roots to see whether the hit target belongs to this element.
+  for (let node: Node | null = hit; node; node = node.parentNode ?? (node as ShadowRoot).host ?? null) {
+    if (node === this)
+      return { point: { x, y } };
+  }
+
+  const modal = hit.closest('dialog, [role="dialog"], [role="alertdialog"], [aria-modal="true"]');
+  if (modal) {
+    const label = modal.getAttribute('aria-label') ?? modal.querySelector('h1, h2, h3')?.textContent?.trim();
+    return { reason: `Element is covered by modal dialog${label ? ` "${label}"` : ''}` };
+  }
+  const classes = Array.from(hit.classList).slice(0, 2).map(name => `.${name}`).join('');
+  return { reason: `Element is covered by <${hit.tagName.toLowerCase()}${hit.id ? `#${hit.id}` : ''}${classes}>` };
+}
+
+function focusForTypingInPage(this: Element, clear: boolean): string {
+  const nonTextInputs = ['button', 'checkbox', 'color', 'file', 'hidden', 'image', 'radio', 'range', 'reset', 'submit'];
+  const isTextControl = (element: Element | null): element is HTMLInputElement | HTMLTextAreaElement =>
+    element instanceof HTMLTextAreaElement || (element instanceof HTMLInputElement && !nonTextInputs.includes(element.type));
+  const isEditable = (element: Element | null) => isTextControl(element) || (element instanceof HTMLElement && element.isContentEditable);
+
+  const target = isEditable(this) ? this : this.querySelector('input, textarea, [contenteditable=""], [contenteditable="true"]');
+  if (!target || !isEditable(target))
+    return 'Element is not an editable field';
+  if (isTextControl(target) && (target.disabled || target.readOnly))
+    return 'Element is disabled or read-only';
+
+  (target as HTMLElement).focus();
+  if (isTextControl(target)) {
+    if (clear) {
+      target.select();
+    } else {
+      try {
+        target.setSelectionRange(target.value.length, target.value.length);
+      } catch {
+        // Email and number inputs do not support selection ranges.
+      }
+    }
+  } else {
+    const range = target.ownerDocument.createRange();
+    range.selectNodeContents(target);
+    if (!clear)
+      range.collapse(false);
+    const selection = target.ownerDocument.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }
+  return '';
+}
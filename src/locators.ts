@@ -0,0 +1,216 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Locators let Sid Voice address elements the way a user describes them
+ * ("the Approve button", "the Description field") instead of by CSS selector.
+ * Role locators are matched against the CDP accessibility tree; text, label,
+ * placeholder and test id locators are matched inside the page. Both see into
+ * iframes and open shadow roots. Matches are returned as snapshot refs.
+ */
+
+import { flattenAXTree, refForBackendNodeId } from './ariaSnapshot';
+import { CommandError } from './commandErrors';
+
+import type { AXNode } from './ariaSnapshot';
+import type { PageExecutor } from './pageExecutor';
+
+export type Locator = {
+  role?: string; // ARIA role, optionally combined with `name`
+  name?: string; // Accessible name for role locators
+  text?: string; // Visible text content
+  label?: string; // Associated <label>, aria-label or aria-labelledby text
+  placeholder?: string;
+  testId?: string; // data-testid attribute
+  exact?: boolean; // Whole-string, case-sensitive match instead of a substring match
+  nth?: number; // Pick one of several matches; negative values count from the end
+};
+
+export function describeLocator(locator: Locator): string {
+  const parts: string[] = [];
+  if (locator.role !== undefined)
+    parts.push(`role=${locator.role}`);
+  if (locator.name !== undefined)
+    parts.push(`name=${JSON.stringify(locator.name)}`);
+  for (const key of ['text', 'label', 'placeholder', 'testId'] as const) {
+    if (locator[key] !== undefined)
+      parts.push(`${key}=${JSON.stringify(locator[key])}`);
+  }
+  if (locator.exact)
+    parts.push('exact');
+  if (locator.nth !== undefined)
+    parts.push(`nth=${locator.nth}`);
+  return `locator(${parts.join(', ')})`;
+}
+
+/**
+ * Resolves a locator to the ref of the single element it points to, or undefined when nothing
+ * (or no `nth` element) matches yet. Throws when several elements match and no `nth` was given.
+ */
+export async function queryLocator(page: PageExecutor, locator: Locator): Promise<string | undefined> {
+  const kinds = ['role', 'text', 'label', 'placeholder', 'testId'].filter(key => locator[key as keyof Locator] !== undefined);
+  if (kinds.length !== 1)
+    throw new CommandError('INVALID_PARAMS', `A locator needs exactly one of role, text, label, placeholder or testId, got ${describeLocator(locator)}`);
+
+  const matches = locator.role !== undefined ? queryByRole(await getAXNodes(page), locator) : await queryInPage(page, locator);
+
+  if (locator.nth !== undefined)
+    return matches[locator.nth < 0 ? matches.length + locator.nth : locator.nth];
+  if (matches.length > 1) {
+    const axNodes = await getAXNodes(page);
+    const candidates = matches.slice(0, 10).map(ref => `  ${describeCandidate(axNodes, ref)}`);
+    if (matches.length > candidates.length)
+      candidates.push(`  ...and ${matches.length - candidates.length} more`);
+    throw new CommandError('ELEMENT_AMBIGUOUS', `${describeLocator(locator)} is ambiguous, it matched ${matches.length} elements:\n${candidates.join('\n')}\nPass nth or use a ref to pick one.`, { matches: matches.length });
+  }
+  return matches[0];
+}
+
+/**
+ * Returns the ref of the first element matching a CSS selector, looking into iframes and
+ * open shadow roots when the top-level document has no match.
+ */
+export async function querySelector(page: PageExecutor, selector: string): Promise<string | undefined> {
+  try {
+    for (const session of page.sessions()) {
+      const [first] = await queryInSession(session, selector);
+      if (first)
+        return first;
+    }
+    return undefined;
+  } catch (error) {
+    // `matches` throws a SyntaxError in the page for selectors it cannot parse.
+    if (error instanceof CommandError && error.code === 'SCRIPT_ERROR' && /SyntaxError/.test(error.message))
+      throw new CommandError('INVALID_PARAMS', `Invalid CSS selector: ${selector}`);
+    throw error;
+  }
+}
+
+// Every node of every frame, keyed by ref.
+async function getAXNodes(page: PageExecutor): Promise<Map<string, AXNode>> {
+  const result = new Map<string, AXNode>();
+  for (const { node, refPrefix } of flattenAXTree(await page.accessibilityTree())) {
+    if (!node.ignored && node.backendDOMNodeId !== undefined)
+      result.set(refForBackendNodeId(node.backendDOMNodeId, refPrefix), node);
+  }
+  return result;
+}
+
+function queryByRole(nodes: Map<string, AXNode>, locator: Locator): string[] {
+  const result: string[] = [];
+  for (const [ref, node] of nodes) {
+    if (String(node.role?.value ?? '').toLowerCase() !== locator.role!.toLowerCase())
+      continue;
+    if (locator.name !== undefined && !textMatches(String(node.name?.value ?? ''), locator.name, !!locator.exact))
+      continue;
+    result.push(ref);
+  }
+  return result;
+}
+
+function describeCandidate(nodes: Map<string, AXNode>, ref: string): string {
+  const node = nodes.get(ref);
+  const role = String(node?.role?.value ?? 'generic');
+  const name = String(node?.name?.value ?? '').replace(/\s+/g, ' ').trim();
+  return `- ${role}${name ? ` ${JSON.stringify(name)}` : ''} [ref=${ref}]`;
+}
+
+function textMatches(actual: string, expected: string, exact: boolean): boolean {
+  const normalizedActual = actual.replace(/\s+/g, ' ').trim();
+  const normalizedExpected = expected.replace(/\s+/g, ' ').trim();
+  if (exact)
+    return normalizedActual === normalizedExpected;
+  return normalizedActual.toLowerCase().includes(normalizedExpected.toLowerCase());
+}
+
+// Queries the top-level page and every out-of-process frame, in that order.
+async function queryInPage(page: PageExecutor, query: Locator | string): Promise<string[]> {
+  const refs: string[] = [];
+  for (const session of page.sessions())
+    refs.push(...await queryInSession(session, query));
+  return refs;
+}
+
+async function queryInSession(session: PageExecutor, query: Locator | string): Promise<string[]> {
+  const elements = await session.evaluateHandle(queryElementsInPage, query);
+  const refs: string[] = [];
+  let items: string[] = [];
+  try {
+    items = await session.arrayItems(elements.objectId!);
+    for (const objectId of items)
+      refs.push(session.refFor(await session.backendNodeId(objectId)));
+  } finally {
+    for (const objectId of [elements.objectId!, ...items])
+      await session.release(objectId);
+  }
+  return refs;
+}
+
+// A string query is a CSS selector and only its first match is returned, unfiltered by visibility.
+function queryElementsInPage(this: Document, query: Locator | string): Element[] {
+  const locator = typeof query === 'string' ? {} as Locator : query;
+  const normalize = (value: string) => value.replace(/\s+/g, ' ').trim();
+  const matches = (actual: string | null | undefined, expected: string) => {
+    if (actual === null || actual === undefined)
+      return false;
+    if (locator.exact)
+      return normalize(actual) === normalize(expected);
+    return normalize(actual).toLowerCase().includes(normalize(expected).toLowerCase());
+  };
+  const isVisible = (element: Element) => {
+    if (!element.getClientRects().length)
+      return false;
+    const style = element.ownerDocument.defaultView!.getComputedStyle(element);
+    return style.visibility !== 'hidden' && style.display !== 'none';
+  };
+
+  // Elements of the document, of open shadow roots and of same-process iframes we may access.
+  // Cross-origin iframes have no contentDocument here; out-of-process ones are queried separately.
+  const all: Element[] = [];
+  const roots: (Document | ShadowRoot)[] = [this];
+  for (let i = 0; i < roots.length; i++) {
+    for (const element of Array.from(roots[i].querySelectorAll('*'))) {
+      all.push(element);
+      if (element.shadowRoot)
+        roots.push(element.shadowRoot);
+      // Tag names rather than instanceof, which fails for elements of other frames.
+      const contentDocument = element.tagName === 'IFRAME' || element.tagName === 'FRAME' ? (element as HTMLIFrameElement).contentDocument : null;
+      if (contentDocument)
+        roots.push(contentDocument);
+    }
+  }
+
+  let found: Element[] = [];
+  if (typeof query === 'string') {
+    const first = all.find(element => element.matches(query));
+    return first ? [first] : [];
+  } else if (locator.testId !== undefined) {
+    found = all.filter(element => element.getAttribute('data-testid') === locator.testId);
+  } else if (locator.placeholder !== undefined) {
+    found = all.filter(element => matches(element.getAttribute('placeholder'), locator.placeholder!));
+  } else if (locator.label !== undefined) {
+    const labelled = new Set<Element>();
+    for (const label of all) {
+      const control = label.tagName === 'LABEL' ? (label as HTMLLabelElement).control : null;
+      if (control && matches((label as HTMLElement).innerText, locator.label))
+        labelled.add(control);
+    }
+    for (const element of all) {
+      if (matches(element.getAttribute('aria-label'), locator.label))
+        labelled.add(element);
+      const labelledBy = element.getAttribute('aria-labelledby');
+      if (labelledBy) {
+        const root = element.getRootNode() as Document | ShadowRoot;
+        const text = labelledBy.split(/\s+/).map(id => root.getElementById(id)?.textContent ?? '').join(' ');
+        if (matches(text, locator.label))
+          labelled.add(element);
+      }
+    }
+    found = all.filter(element => labelled.has(element));
+  } else if (locator.text !== undefined) {
+    const skipped = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+    const withText = new Set(all.filter(element => !skipped.has(element.tagName) && matches((element as HTMLElement).innerText, locator.text!)));
+    // Prefer the innermost element that contains the text.
+    found = Array.from(withText).filter(element => !Array.from(element.children).some(child => withText.has(child)));
+  }
+  return found.filter(isVisible);
+}
@@ -0,0 +1,218 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Navigation helpers for the Sid Voice controlled tab. Actions that start a
+ * navigation (page loads, history traversal, reload) are wrapped so the command
+ * only returns once the main frame reached the requested lifecycle state. Pages
+ * the debugger cannot attach to are left through the tabs API instead.
+ */
+
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor } from './pageExecutor';
+
+export const DEFAULT_NAVIGATION_TIMEOUT = 30000;
+
+export type WaitUntil = 'commit' | 'domcontentloaded' | 'load' | 'networkidle';
+
+export type NavigationOptions = {
+  waitUntil?: WaitUntil;
+  timeout?: number;
+};
+
+export type NavigationResult = {
+  url: string;
+  status?: number; // HTTP status of the main document, absent for same-document navigations
+  sameDocument: boolean;
+};
+
+export type NavigateOutcome = {
+  requestedUrl: string;
+  url?: string;
+  status?: number;
+  redirected: boolean;
+  // Set when the final page looks like a sign-in page on another host (e.g. SSO).
+  loginRedirect?: boolean;
+  blocked?: boolean;
+  error?: string;
+};
+
+type NavigationHistory = {
+  currentIndex: number;
+  entries: { id: number; url: string; title: string }[];
+};
+
+// CDP lifecycle event names for each wait condition ('commit' resolves on frameNavigated).
+const LIFECYCLE_EVENTS: Record<Exclude<WaitUntil, 'commit'>, string> = {
+  domcontentloaded: 'DOMContentLoaded',
+  load: 'load',
+  networkidle: 'networkIdle',
+};
+
+const BLOCKED_ERRORS = ['net::ERR_BLOCKED_BY_CLIENT', 'net::ERR_BLOCKED_BY_ADMINISTRATOR', 'net::ERR_BLOCKED_BY_RESPONSE'];
+
+const LOGIN_URL_PATTERN = /login|signin|sign-in|sso|saml|oauth|auth/i;
+
+/**
+ * Runs `action` and waits until the main frame navigation it triggers reaches `waitUntil`
+ * (defaults to the load event). Same-document navigations (pushState, hash changes)
+ * finish as soon as they are committed. Stops waiting when `signal` aborts.
+ */
+export async function waitForNavigation(page: PageExecutor, action: () => Promise<unknown>, options: NavigationOptions = {}, signal?: AbortSignal): Promise<NavigationResult> {
+  const waitUntil = options.waitUntil ?? 'load';
+  const timeout = options.timeout ?? DEFAULT_NAVIGATION_TIMEOUT;
+  if (waitUntil !== 'commit' && !(waitUntil in LIFECYCLE_EVENTS))
+    throw new CommandError('INVALID_PARAMS', `Unknown waitUntil value: ${waitUntil}`);
+
+  const { frameTree } = await page.send<{ frameTree: { frame: { id: string } } }>('Page.getFrameTree');
+  let unsubscribe = () => {};
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+  const navigated = new Promise<NavigationResult>((resolve, reject) => {
+    let mainFrameId = frameTree.frame.id;
+    let loaderId: string | undefined;
+    let url = '';
+    const statuses = new Map<string, number>();
+    timer = setTimeout(() => reject(new CommandError('TIMEOUT', `Navigation did not reach "${waitUntil}" within ${timeout}ms`, { timeout })), timeout);
+    onAbort = () => reject(signal!.reason);
+    signal?.addEventListener('abort', onAbort);
+    unsubscribe = page.onEvent((method, params) => {
+      if (method === 'Network.responseReceived' && params.type === 'Document' && params.frameId === mainFrameId) {
+        statuses.set(params.loaderId, params.response.status);
+      } else if (method === 'Page.frameNavigated' && !params.frame.parentId) {
+        mainFrameId = params.frame.id;
+        loaderId = params.frame.loaderId;
+        url = params.frame.url;
+        // Pages restored from the back/forward cache keep their loaderId and fire no new lifecycle events.
+        if (waitUntil === 'commit' || params.type === 'BackForwardCacheRestore')
+          resolve({ url, status: statuses.get(loaderId!), sameDocument: false });
+      } else if (method === 'Page.navigatedWithinDocument' && params.frameId === mainFrameId) {
+        resolve({ url: params.url, sameDocument: true });
+      } else if (method === 'Page.lifecycleEvent' && params.frameId === mainFrameId && params.loaderId === loaderId && params.name === LIFECYCLE_EVENTS[waitUntil as keyof typeof LIFECYCLE_EVENTS]) {
+        resolve({ url, status: statuses.get(loaderId!), sameDocument: false });
+      }
+    });
+  });
+
+  try {
+    signal?.throwIfAborted();
+    // Awaited together, so the timeout also covers an action that hangs, e.g. Page.navigate to a server that never responds.
+    const [, result] = await Promise.all([action(), navigated]);
+    return result;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    unsubscribe();
+  }
+}
+
+/**
+ * Loads `url` in the main frame and reports where the navigation ended up.
+ * Network failures are returned in the outcome instead of being thrown.
+ */
+export async function navigate(page: PageExecutor, url: string, options: NavigationOptions = {}, signal?: AbortSignal): Promise<NavigateOutcome> {
+  let errorText: string | undefined;
+  let result: NavigationResult | undefined;
+  try {
+    result = await waitForNavigation(page, async () => {
+      const response = await page.send<{ errorText?: string }>('Page.navigate', { url }).catch(error => {
+        // CDP rejects URLs it cannot parse with a protocol error instead of an errorText.
+        if (/invalid URL/i.test(error instanceof Error ? error.message : String(error)))
+          throw new CommandError('INVALID_PARAMS', `Invalid URL: ${url}`);
+        throw error;
+      });
+      if (response.errorText) {
+        errorText = response.errorText;
+        throw new Error(`Navigation to ${url} failed: ${errorText}`);
+      }
+    }, options, signal);
+  } catch (error) {
+    if (!errorText)
+      throw error;
+    return {
+      requestedUrl: url,
+      redirected: false,
+      blocked: BLOCKED_ERRORS.includes(errorText),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  return navigateOutcome(url, result.url, result.status);
+}
+
+/**
+ * Loads `url` in a tab through the tabs API, for tabs the debugger cannot attach to (chrome://
+ * pages, hosts blocked by policy). Waits for the tab's load to complete, or only for it to
+ * start with `waitUntil: 'commit'`; the HTTP status is not known this way.
+ */
+export async function navigateTab(tabId: number, url: string, options: NavigationOptions = {}, signal?: AbortSignal): Promise<NavigateOutcome> {
+  const timeout = options.timeout ?? DEFAULT_NAVIGATION_TIMEOUT;
+  let onUpdated: Parameters<typeof chrome.tabs.onUpdated.addListener>[0] = () => {};
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+  const loaded = new Promise<string | undefined>((resolve, reject) => {
+    // The tab may still report the completion of its previous page, so wait for the new load to start first.
+    let started = false;
+    onUpdated = (updatedTabId, changeInfo, tab) => {
+      if (updatedTabId !== tabId)
+        return;
+      if (changeInfo.status === 'loading')
+        started = true;
+      if (started && (changeInfo.status === 'complete' || options.waitUntil === 'commit'))
+        resolve(tab.url);
+    };
+    chrome.tabs.onUpdated.addListener(onUpdated);
+    timer = setTimeout(() => reject(new CommandError('TIMEOUT', `Navigation did not finish within ${timeout}ms`, { timeout })), timeout);
+    onAbort = () => reject(signal!.reason);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+  try {
+    signal?.throwIfAborted();
+    const [, finalUrl] = await Promise.all([chrome.tabs.update(tabId, { url }), loaded]);
+    return navigateOutcome(url, finalUrl ?? url);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+    chrome.tabs.onUpdated.removeListener(onUpdated);
+  }
+}
+
+/**
+ * Moves `delta` entries through the tab's session history, e.g. -1 for back.
+ */
+export async function traverseHistory(page: PageExecutor, delta: number, options?: NavigationOptions, signal?: AbortSignal): Promise<NavigationResult> {
+  const history = await page.send<NavigationHistory>('Page.getNavigationHistory');
+  const entry = history.entries[history.currentIndex + delta];
+  if (!entry)
+    throw new CommandError('NAVIGATION_FAILED', delta < 0 ? 'There is no previous page in the tab history' : 'There is no next page in the tab history');
+  return await waitForNavigation(page, () => page.send('Page.navigateToHistoryEntry', { entryId: entry.id }), options, signal);
+}
+
+function navigateOutcome(requestedUrl: string, url: string, status?: number): NavigateOutcome {
+  const outcome: NavigateOutcome = {
+    requestedUrl,
+    url,
+    status,
+    redirected: !sameUrl(requestedUrl, url),
+  };
+  if (outcome.redirected && hostOf(requestedUrl) !== hostOf(url) && LOGIN_URL_PATTERN.test(url))
+    outcome.loginRedirect = true;
+  return outcome;
+}
+
+function sameUrl(a: string, b: string): boolean {
+  try {
+    return new URL(a).href === new URL(b).href;
+  } catch {
+    return a === b;
+  }
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Console and network activity of tabs Sid Voice attached to, kept in small
+ * per-tab ring buffers so Sid can answer "what went wrong on this page?".
+ * Console messages, uncaught exceptions and browser log entries are recorded;
+ * of the network traffic only failed requests and 4xx/5xx responses are kept.
+ */
+
+import { CommandError } from './commandErrors';
+
+export type ConsoleLevel = 'debug' | 'info' | 'warning' | 'error';
+
+export type ConsoleEntry = {
+  level: ConsoleLevel;
+  source: 'console' | 'exception' | 'browser';
+  text: string;
+  url?: string;
+  line?: number;
+  column?: number;
+  stack?: string;
+  timestamp: number; // ms since epoch
+};
+
+export type NetworkEntry = {
+  url: string;
+  method: string;
+  resourceType?: string; // Document, XHR, Fetch, Script, ...
+  status?: number;
+  statusText?: string;
+  mimeType?: string;
+  errorText?: string; // Set for requests that failed without a response, e.g. net::ERR_CONNECTION_REFUSED
+  blockedReason?: string;
+  canceled?: boolean;
+  requestHeaders: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  encodedDataLength?: number;
+  timestamp: number; // ms since epoch
+  duration?: number; // ms
+};
+
+export type ConsoleFilter = {
+  level?: ConsoleLevel; // Minimum level
+  text?: string; // Substring of the message or its URL
+  since?: number; // ms since epoch
+  limit?: number; // Most recent entries only
+};
+
+export type NetworkFilter = {
+  text?: string; // Substring of the URL
+  resourceType?: string;
+  since?: number;
+  limit?: number;
+};
+
+const LEVEL_ORDER: ConsoleLevel[] = ['debug', 'info', 'warning', 'error'];
+
+const CONSOLE_LIMIT = 500;
+const NETWORK_LIMIT = 200;
+
+type PendingRequest = NetworkEntry & { monotonicStart: number };
+
+type TabActivity = {
+  console: ConsoleEntry[];
+  network: NetworkEntry[];
+  pending: Map<string, PendingRequest>;
+};
+
+export class PageActivity {
+  private _tabs = new Map<number, TabActivity>();
+
+  /**
+   * Records the Runtime, Log and Network events of the debugger session of `tabId`.
+   */
+  handleEvent(tabId: number, method: string, params: any): void {
+    const tab = this._tab(tabId);
+    switch (method) {
+      case 'Runtime.consoleAPICalled': {
+        const frame = params.stackTrace?.callFrames?.[0];
+        this._pushConsole(tab, {
+          level: consoleLevel(params.type),
+          source: 'console',
+          text: params.args.map(formatRemoteObject).join(' '),
+          url: frame?.url || undefined,
+          line: frame?.lineNumber,
+          column: frame?.columnNumber,
+          timestamp: params.timestamp,
+        });
+        break;
+      }
+      case 'Runtime.exceptionThrown': {
+        const details = params.exceptionDetails;
+        this._pushConsole(tab, {
+          level: 'error',
+          source: 'exception',
+          text: details.exception?.description?.split('\n')[0] ?? details.text,
+          url: details.url,
+          line: details.lineNumber,
+          column: details.columnNumber,
+          stack: details.stackTrace?.callFrames?.map((frame: any) => `    at ${frame.functionName || '<anonymous>'} (${frame.url}:${frame.lineNumber + 1}:${frame.columnNumber + 1})`).join('\n'),
+          timestamp: params.timestamp,
+        });
+        break;
+      }
+      case 'Log.entryAdded': {
+        // Browser-side messages such as CSP violations, mixed content and failed resource loads.
+        const entry = params.entry;
+        this._pushConsole(tab, {
+          level: entry.level === 'verbose' ? 'debug' : entry.level,
+          source: 'browser',
+          text: entry.text,
+          url: entry.url,
+          line: entry.lineNumber,
+          timestamp: entry.timestamp,
+        });
+        break;
+      }
+      case 'Network.requestWillBeSent': {
+        tab.pending.set(params.requestId, {
+          url: params.request.url,
+          method: params.request.method,
+          resourceType: params.type,
+          requestHeaders: params.request.headers,
+          timestamp: params.wallTime * 1000,
+          monotonicStart: params.timestamp,
+        });
+        break;
+      }
+      case 'Network.responseReceived': {
+        const request = tab.pending.get(params.requestId);
+        if (!request)
+          break;
+        request.status = params.response.status;
+        request.statusText = params.response.statusText;
+        request.mimeType = params.response.mimeType;
+        request.responseHeaders = params.response.headers;
+        break;
+      }
+      case 'Network.loadingFinished':
+      case 'Network.loadingFailed': {
+        const request = tab.pending.get(params.requestId);
+        if (!request)
+          break;
+        tab.pending.delete(params.requestId);
+        const { monotonicStart, ...entry } = request;
+        entry.duration = Math.round((params.timestamp - monotonicStart) * 1000);
+        if (method === 'Network.loadingFailed') {
+          entry.errorText = params.errorText;
+          entry.blockedReason = params.blockedReason;
+          entry.canceled = params.canceled || undefined;
+        } else {
+          entry.encodedDataLength = params.encodedDataLength;
+        }
+        if (entry.errorText || (entry.status ?? 0) >= 400)
+          push(tab.network, entry, NETWORK_LIMIT);
+        break;
+      }
+    }
+  }
+
+  consoleMessages(tabId: number, filter: ConsoleFilter = {}): ConsoleEntry[] {
+    const minLevel = LEVEL_ORDER.indexOf(filter.level ?? 'debug');
+    if (minLevel < 0)
+      throw new CommandError('INVALID_PARAMS', `Unknown console level: ${filter.level}`);
+    const text = filter.text?.toLowerCase();
+    const entries = (this._tabs.get(tabId)?.console ?? []).filter(entry =>
+      LEVEL_ORDER.indexOf(entry.level) >= minLevel &&
+      (filter.since === undefined || entry.timestamp >= filter.since) &&
+      (!text || entry.text.toLowerCase().includes(text) || !!entry.url?.toLowerCase().includes(text)));
+    return filter.limit ? entries.slice(-filter.limit) : entries;
+  }
+
+  networkRequests(tabId: number, filter: NetworkFilter = {}): NetworkEntry[] {
+    const text = filter.text?.toLowerCase();
+    const entries = (this._tabs.get(tabId)?.network ?? []).filter(entry =>
+      (filter.since === undefined || entry.timestamp >= filter.since) &&
+      (!filter.resourceType || entry.resourceType?.toLowerCase() === filter.resourceType.toLowerCase()) &&
+      (!text || entry.url.toLowerCase().includes(text)));
+    return filter.limit ? entries.slice(-filter.limit) : entries;
+  }
+
+  forgetTab(tabId: number): void {
+    this._tabs.delete(tabId);
+  }
+
+  private _tab(tabId: number): TabActivity {
+    let tab = this._tabs.get(tabId);
+    if (!tab) {
+      tab = { console: [], network: [], pending: new Map() };
+      this._tabs.set(tabId, tab);
+    }
+    return tab;
+  }
+
+  private _pushConsole(tab: TabActivity, entry: ConsoleEntry): void {
+    push(tab.console, entry, CONSOLE_LIMIT);
+  }
+}
+
+/**
+ * Converts recorded requests to a HAR 1.2 log. Bodies are not captured.
+ */
+export function toHar(entries: NetworkEntry[]): object {
+  const headers = (record: Record<string, string> = {}) => Object.entries(record).map(([name, value]) => ({ name, value }));
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'SimpliDev Browser Extension', version: chrome.runtime.getManifest().version },
+      entries: entries.map(entry => ({
+        startedDateTime: new Date(entry.timestamp).toISOString(),
+        time: entry.duration ?? -1,
+        request: {
+          method: entry.method,
+          url: entry.url,
+          httpVersion: '',
+          headers: headers(entry.requestHeaders),
+          queryString: queryString(entry.url),
+          cookies: [],
+          headersSize: -1,
+          bodySize: -1,
+        },
+        response: {
+          status: entry.status ?? 0,
+          statusText: entry.statusText ?? '',
+          httpVersion: '',
+          headers: headers(entry.responseHeaders),
+          cookies: [],
+          content: { size: -1, mimeType: entry.mimeType ?? '' },
+          redirectURL: entry.responseHeaders?.location ?? entry.responseHeaders?.Location ?? '',
+          headersSize: -1,
+          bodySize: entry.encodedDataLength ?? -1,
+          _error: entry.errorText,
+        },
+        cache: {},
+        timings: { send: 0, wait: entry.duration ?? -1, receive: 0 },
+        _resourceType: entry.resourceType,
+      })),
+    },
+  };
+}
+
+function push<T>(buffer: T[], entry: T, limit: number): void {
+  buffer.push(entry);
+  if (buffer.length > limit)
+    buffer.splice(0, buffer.length - limit);
+}
+
+function consoleLevel(type: string): ConsoleLevel {
+  if (type === 'error' || type === 'assert')
+    return 'error';
+  if (type === 'warning')
+    return 'warning';
+  if (type === 'debug')
+    return 'debug';
+  return 'info';
+}
+
+function formatRemoteObject(object: { type: string; value?: unknown; description?: string; unserializableValue?: string }): string {
+  if (object.value !== undefined)
+    return typeof object.value === 'string' ? object.value : JSON.stringify(object.value);
+  return object.unserializableValue ?? object.description ?? object.type;
+}
+
+function queryString(url: string): { name: string; value: string }[] {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
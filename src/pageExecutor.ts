@@ -0,0 +1,367 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Argument-safe script execution in the Sid Voice controlled tab.
+ * Page functions are shipped with `Runtime.callFunctionOn` and receive their
+ * inputs as real CDP call arguments, so selectors and typed text are never
+ * spliced into JavaScript source. Elements are addressed by remote object ids.
+ *
+ * Cross-origin iframes that run in their own renderer process (OOPIFs) are
+ * auto-attached through `Target.setAutoAttach` and get their own executor,
+ * bound to the child CDP session. Refs of their elements carry a frame prefix
+ * (`f1e42`), since backend node ids are only unique within one session.
+ */
+
+import { parseRef, refForBackendNodeId } from './ariaSnapshot';
+import { queryLocator, querySelector, describeLocator } from './locators';
+import { CommandError } from './commandErrors';
+
+import type { FrameAXTree, AXNode } from './ariaSnapshot';
+import type { Locator } from './locators';
+
+export type ElementTarget = {
+  selector?: string;
+  ref?: string;
+  locator?: Locator;
+};
+
+export type RemoteObject = {
+  type: string;
+  subtype?: string;
+  objectId?: string;
+  value?: unknown;
+  description?: string;
+};
+
+// An element together with the session (top-level page or out-of-process frame) it lives in.
+export type ElementHandle = {
+  session: PageExecutor;
+  objectId: string;
+};
+
+export type Box = { x: number; y: number; width: number; height: number };
+
+export type EventListener = (method: string, params: any) => void;
+
+type FrameInfo = {
+  top: PageExecutor;
+  parent: PageExecutor;
+  frameId: string;
+  refPrefix: string;
+};
+
+type FrameTree = {
+  frame: { id: string };
+  childFrames?: FrameTree[];
+};
+
+type CallResult = {
+  result: RemoteObject;
+  exceptionDetails?: { text: string; exception?: RemoteObject };
+};
+
+export function hasTarget(target: ElementTarget): boolean {
+  return !!(target.ref || target.locator || target.selector);
+}
+
+export function describeTarget(target: ElementTarget): string {
+  if (target.ref)
+    return target.ref;
+  if (target.locator)
+    return describeLocator(target.locator);
+  return target.selector ?? '';
+}
+
+export class PageExecutor {
+  readonly top: PageExecutor;
+  private _debuggee: chrome.debugger.DebuggerSession;
+  private _frame: FrameInfo | undefined;
+  private _eventListeners = new Set<EventListener>();
+  // Attached out-of-process frames by CDP session id, only tracked by the top-level executor.
+  private _frameSessions = new Map<string, PageExecutor>();
+  private _lastFrameIndex = 0;
+
+  constructor(debuggee: chrome.debugger.DebuggerSession, frame?: FrameInfo) {
+    this._debuggee = debuggee;
+    this._frame = frame;
+    this.top = frame?.top ?? this;
+  }
+
+  async send<T = unknown>(method: string, params?: object): Promise<T> {
+    return await chrome.debugger.sendCommand(this._debuggee, method, params) as T;
+  }
+
+  /**
+   * Subscribes to CDP events of the tab. Returns a function that removes the listener.
+   */
+  onEvent(listener: EventListener): () => void {
+    if (this.top !== this)
+      return this.top.onEvent(listener);
+    this._eventListeners.add(listener);
+    return () => this._eventListeners.delete(listener);
+  }
+
+  // Called by the owner of the debugger session for every event of this tab, with the
+  // session id for events of child sessions.
+  dispatchEvent(method: string, params: any, sessionId?: string): void {
+    if (method === 'Target.attachedToTarget')
+      this._frameAttached(params, sessionId);
+    else if (method === 'Target.detachedFromTarget')
+      this._frameSessions.delete(params.sessionId);
+    // Listeners only care about the top-level page; child sessions are used for frame content.
+    if (sessionId)
+      return;
+    for (const listener of [...this._eventListeners])
+      listener(method, params);
+  }
+
+  /**
+   * The top-level page followed by every attached out-of-process frame.
+   */
+  sessions(): PageExecutor[] {
+    return [this.top, ...this.top._frameSessions.values()];
+  }
+
+  /**
+   * Turns a backend node id of this session into a ref, e.g. `e42` or `f1e42`.
+   */
+  refFor(backendNodeId: number): string {
+    return refForBackendNodeId(backendNodeId, this._frame?.refPrefix);
+  }
+
+  /**
+   * Collects the accessibility trees of this session's frames, with the trees of
+   * child frames (in-process and out-of-process) attached to their <iframe> nodes.
+   */
+  async accessibilityTree(): Promise<FrameAXTree> {
+    const refPrefix = this._frame?.refPrefix ?? '';
+    const { frameTree } = await this.send<{ frameTree: FrameTree }>('Page.getFrameTree');
+    const { nodes } = await this.send<{ nodes: AXNode[] }>('Accessibility.getFullAXTree');
+    const root: FrameAXTree = { nodes, refPrefix, frames: new Map() };
+
+    const children = this.sessions().filter(session => session._frame?.parent === this);
+    const outOfProcess = new Set(children.map(session => session._frame!.frameId));
+    const trees = [root];
+    const frames: { frameId: string; tree: FrameAXTree }[] = [];
+    const visit = async (frame: FrameTree) => {
+      for (const child of frame.childFrames ?? []) {
+        if (outOfProcess.has(child.frame.id))
+          continue;
+        const { nodes } = await this.send<{ nodes: AXNode[] }>('Accessibility.getFullAXTree', { frameId: child.frame.id });
+        const tree = { nodes, refPrefix, frames: new Map() };
+        trees.push(tree);
+        frames.push({ frameId: child.frame.id, tree });
+        await visit(child);
+      }
+    };
+    await visit(frameTree);
+    for (const session of children)
+      frames.push({ frameId: session._frame!.frameId, tree: await session.accessibilityTree() });
+
+    for (const { frameId, tree } of frames) {
+      const owner = await this.send<{ backendNodeId: number }>('DOM.getFrameOwner', { frameId }).catch(() => undefined);
+      const parent = owner && trees.find(candidate => candidate.nodes.some(node => node.backendDOMNodeId === owner.backendNodeId));
+      parent?.frames.set(owner!.backendNodeId, tree);
+    }
+    return root;
+  }
+
+  /**
+   * Runs `fn` in the page with `document` as `this` and returns its JSON-serializable result.
+   */
+  async evaluate<A extends unknown[], R>(fn: (this: Document, ...args: A) => R, ...args: A): Promise<Awaited<R>> {
+    const document = await this._documentObjectId();
+    try {
+      return await this.callOn(document, fn, ...args);
+    } finally {
+      await this.release(document);
+    }
+  }
+
+  /**
+   * Like `evaluate`, but returns a remote object for the result. The caller must release it.
+   */
+  async evaluateHandle<A extends unknown[]>(fn: (this: Document, ...args: A) => unknown, ...args: A): Promise<RemoteObject> {
+    const document = await this._documentObjectId();
+    try {
+      return await this._callFunctionOn(document, fn, args, false);
+    } finally {
+      await this.release(document);
+    }
+  }
+
+  /**
+   * Runs `fn` with the object behind `objectId` as `this` and returns its JSON-serializable result.
+   * `fn` is sent as its source text, so it runs inside the page and must not reference anything
+   * from the enclosing module; the same goes for `evaluate` and `evaluateHandle`.
+   */
+  async callOn<A extends unknown[], R, T = Element>(objectId: string, fn: (this: T, ...args: A) => R, ...args: A): Promise<Awaited<R>> {
+    const result = await this._callFunctionOn(objectId, fn, args, true);
+    return result.value as Awaited<R>;
+  }
+
+  async release(objectId: string): Promise<void> {
+    await this.send('Runtime.releaseObject', { objectId }).catch(() => {});
+  }
+
+  /**
+   * Resolves a ref, locator or CSS selector to an element in the page or one of its frames.
+   * Throws an "element not found" error instead of returning nothing.
+   */
+  async resolveElement(target: ElementTarget): Promise<ElementHandle> {
+    const element = await this.queryElement(target);
+    if (!element) {
+      const hint = target.ref ? ' It is no longer on the page. Take a new snapshot.' : '';
+      throw new CommandError('ELEMENT_NOT_FOUND', `Element not found: ${describeTarget(target)}.${hint}`);
+    }
+    return element;
+  }
+
+  /**
+   * Like `resolveElement`, but returns undefined when the element does not exist (yet).
+   */
+  async queryElement(target: ElementTarget): Promise<ElementHandle | undefined> {
+    let ref: string | undefined;
+    if (target.ref)
+      ref = target.ref;
+    else if (target.locator)
+      ref = await queryLocator(this.top, target.locator);
+    else if (target.selector)
+      ref = await querySelector(this.top, target.selector);
+    else
+      throw new CommandError('INVALID_PARAMS', 'One of ref, locator or selector is required');
+    if (ref === undefined)
+      return undefined;
+
+    const resolved = this.sessionForRef(ref);
+    // The frame of a prefixed ref may have navigated away or been removed since the snapshot.
+    const objectId = await resolved?.session.queryBackendNode(resolved.backendNodeId);
+    return resolved && objectId ? { session: resolved.session, objectId } : undefined;
+  }
+
+  /**
+   * Finds the session a ref belongs to. Undefined when its frame is no longer attached.
+   */
+  sessionForRef(ref: string): { session: PageExecutor; backendNodeId: number } | undefined {
+    const parsed = parseRef(ref);
+    if (!parsed)
+      throw new CommandError('INVALID_PARAMS', `Invalid ref: ${ref}`);
+    const session = this.sessions().find(candidate => (candidate._frame?.refPrefix ?? '') === parsed.refPrefix);
+    return session && { session, backendNodeId: parsed.backendNodeId };
+  }
+
+  async queryBackendNode(backendNodeId: number): Promise<string | undefined> {
+    try {
+      const { object } = await this.send<{ object: RemoteObject }>('DOM.resolveNode', { backendNodeId });
+      return object.objectId;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async backendNodeId(objectId: string): Promise<number> {
+    const { node } = await this.send<{ node: { backendNodeId: number } }>('DOM.describeNode', { objectId });
+    return node.backendNodeId;
+  }
+
+  /**
+   * Returns the object ids of the items of a remote array, e.g. a list of matched elements.
+   * Each is a new remote object the caller must release, like the array itself.
+   */
+  async arrayItems(arrayObjectId: string): Promise<string[]> {
+    const { result } = await this.send<{ result: { name: string; value?: RemoteObject }[] }>('Runtime.getProperties', {
+      objectId: arrayObjectId,
+      ownProperties: true,
+    });
+    return result
+        .filter(property => /^\d+$/.test(property.name) && property.value?.objectId)
+        .sort((a, b) => Number(a.name) - Number(b.name))
+        .map(property => property.value!.objectId!);
+  }
+
+  /**
+   * Border box of a node of this session in top-level viewport coordinates, which is what
+   * `Input` events and screenshot clips expect. Undefined for nodes without a layout box.
+   */
+  async elementBox(node: { objectId: string } | { backendNodeId: number }): Promise<Box | undefined> {
+    let quads: number[][];
+    try {
+      ({ quads } = await this.send<{ quads: number[][] }>('DOM.getContentQuads', node));
+    } catch {
+      return undefined;
+    }
+    if (!quads.length)
+      return undefined;
+    // Quads are relative to the viewport of the session's root frame, in-process iframes included.
+    const xs = quads.flatMap(quad => [quad[0], quad[2], quad[4], quad[6]]);
+    const ys = quads.flatMap(quad => [quad[1], quad[3], quad[5], quad[7]]);
+    const width = Math.max(...xs) - Math.min(...xs);
+    const height = Math.max(...ys) - Math.min(...ys);
+    if (!width || !height)
+      return undefined;
+    const offset = await this._viewportOffset();
+    return { x: Math.min(...xs) + offset.x, y: Math.min(...ys) + offset.y, width, height };
+  }
+
+  /**
+   * Converts a point in the viewport of the frame that contains `objectId` (what page
+   * functions see) to top-level viewport coordinates.
+   */
+  async toViewportPoint(objectId: string, point: { x: number; y: number }): Promise<{ x: number; y: number }> {
+    const local = await this.callOn(objectId, function(this: Element) {
+      const rect = this.getBoundingClientRect();
+      return { x: rect.x, y: rect.y };
+    });
+    const box = await this.elementBox({ objectId });
+    if (!box)
+      throw new CommandError('NOT_ACTIONABLE', 'Element is not visible');
+    return { x: point.x - local.x + box.x, y: point.y - local.y + box.y };
+  }
+
+  // Position of this session's root frame in the top-level viewport.
+  private async _viewportOffset(): Promise<{ x: number; y: number }> {
+    if (!this._frame)
+      return { x: 0, y: 0 };
+    const { parent, frameId } = this._frame;
+    const { backendNodeId } = await parent.send<{ backendNodeId: number }>('DOM.getFrameOwner', { frameId });
+    const { model } = await parent.send<{ model: { content: number[] } }>('DOM.getBoxModel', { backendNodeId });
+    const offset = await parent._viewportOffset();
+    return { x: model.content[0] + offset.x, y: model.content[1] + offset.y };
+  }
+
+  private _frameAttached(params: { sessionId: string; targetInfo: { targetId: string; type: string } }, parentSessionId?: string): void {
+    if (params.targetInfo.type !== 'iframe')
+      return;
+    const parent = parentSessionId ? this._frameSessions.get(parentSessionId) : this;
+    if (!parent)
+      return;
+    const frame = new PageExecutor({ ...this._debuggee, sessionId: params.sessionId }, {
+      top: this,
+      parent,
+      frameId: params.targetInfo.targetId,
+      refPrefix: `f${++this._lastFrameIndex}`,
+    });
+    this._frameSessions.set(params.sessionId, frame);
+    // Frames nested inside this one attach through its session.
+    frame.send('Target.setAutoAttach', { autoAttach: true, waitForDebuggerOnStart: false, flatten: true }).catch(() => {});
+  }
+
+  private async _documentObjectId(): Promise<string> {
+    const { result } = await this.send<CallResult>('Runtime.evaluate', { expression: 'document' });
+    return result.objectId!;
+  }
+
+  private async _callFunctionOn(objectId: string, fn: Function, args: unknown[], returnByValue: boolean): Promise<RemoteObject> {
+    const { result, exceptionDetails } = await this.send<CallResult>('Runtime.callFunctionOn', {
+      objectId,
+      functionDeclaration: fn.toString(),
+      arguments: args.map(value => ({ value })),
+      returnByValue,
+      awaitPromise: true,
+      userGesture: true,
+    });
+    if (exceptionDetails)
+      throw new CommandError('SCRIPT_ERROR', exceptionDetails.exception?.description ?? exceptionDetails.text);
+    return result;
+  }
+}
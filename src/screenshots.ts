@@ -0,0 +1,151 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Screenshots of the Sid Voice controlled tab through `Page.captureScreenshot`,
+ * so the capture always comes from that tab rather than whichever tab is
+ * visible. Supports full-page and element captures, PNG/JPEG/WebP encoding
+ * and downscaling to keep payloads small on the voice socket. Annotated
+ * ("set-of-marks") screenshots label every interactive element with a number
+ * that maps back to its snapshot ref.
+ */
+
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor, ElementHandle, Box } from './pageExecutor';
+import type { InteractiveElement } from './ariaSnapshot';
+
+export type ScreenshotFormat = 'png' | 'jpeg' | 'webp';
+
+export type ScreenshotOptions = {
+  fullPage?: boolean;
+  format?: ScreenshotFormat;
+  quality?: number; // 0-100, JPEG and WebP only
+  maxDimension?: number; // Longest side of the resulting image in pixels
+};
+
+export type Screenshot = {
+  screenshot: string; // data: URL
+  format: ScreenshotFormat;
+  width: number;
+  height: number;
+};
+
+export type Mark = {
+  label: number;
+  ref: string;
+  role: string;
+  name: string;
+  box: Box; // Viewport coordinates in CSS pixels
+};
+
+const OVERLAY_ID = '__sid_voice_marks__';
+
+type LayoutMetrics = {
+  cssContentSize: { width: number; height: number };
+  cssVisualViewport: { pageX: number; pageY: number; clientWidth: number; clientHeight: number };
+};
+
+/**
+ * Captures the viewport, the full page, or the given element (which may be inside an iframe).
+ */
+export async function captureScreenshot(page: PageExecutor, options: ScreenshotOptions = {}, element?: ElementHandle): Promise<Screenshot> {
+  const format = options.format ?? 'png';
+  if (!['png', 'jpeg', 'webp'].includes(format))
+    throw new CommandError('INVALID_PARAMS', `Unsupported screenshot format: ${format}`);
+  if (options.quality !== undefined && format === 'png')
+    throw new CommandError('INVALID_PARAMS', 'quality is only supported for jpeg and webp screenshots');
+
+  const metrics = await page.send<LayoutMetrics>('Page.getLayoutMetrics');
+  let clip: Box;
+  if (element) {
+    clip = await elementClip(page, element);
+  } else if (options.fullPage) {
+    clip = { x: 0, y: 0, width: metrics.cssContentSize.width, height: metrics.cssContentSize.height };
+  } else {
+    const viewport = metrics.cssVisualViewport;
+    clip = { x: viewport.pageX, y: viewport.pageY, width: viewport.clientWidth, height: viewport.clientHeight };
+  }
+
+  const devicePixelRatio = await page.evaluate(function() {
+    return this.defaultView?.devicePixelRatio ?? 1;
+  });
+  const longestSide = Math.max(clip.width, clip.height) * devicePixelRatio;
+  const scale = options.maxDimension && longestSide > options.maxDimension ? options.maxDimension / longestSide : 1;
+
+  const { data } = await page.send<{ data: string }>('Page.captureScreenshot', {
+    format,
+    quality: options.quality,
+    clip: { ...clip, scale },
+    captureBeyondViewport: !!options.fullPage || !!element,
+  });
+  return {
+    screenshot: `data:image/${format};base64,${data}`,
+    format,
+    width: Math.round(clip.width * devicePixelRatio * scale),
+    height: Math.round(clip.height * devicePixelRatio * scale),
+  };
+}
+
+async function elementClip(page: PageExecutor, element: ElementHandle): Promise<Box> {
+  await element.session.send('DOM.scrollIntoViewIfNeeded', { objectId: element.objectId }).catch(() => {});
+  const box = await element.session.elementBox({ objectId: element.objectId });
+  if (!box)
+    throw new CommandError('NOT_ACTIONABLE', 'Element is not visible');
+  // Clips are in page coordinates of the top-level document, the box is relative to its viewport.
+  const { cssVisualViewport: viewport } = await page.send<LayoutMetrics>('Page.getLayoutMetrics');
+  return { ...box, x: box.x + viewport.pageX, y: box.y + viewport.pageY };
+}
+
+/**
+ * Draws numbered labels over the given elements, captures the screenshot and removes
+ * the overlay again. Only elements with a layout box (and, unless `fullPage` is set,
+ * inside the viewport) are marked.
+ */
+export async function captureAnnotatedScreenshot(page: PageExecutor, elements: InteractiveElement[], options: ScreenshotOptions = {}, element?: ElementHandle): Promise<Screenshot & { marks: Mark[] }> {
+  const metrics = await page.send<LayoutMetrics>('Page.getLayoutMetrics');
+  const viewport = metrics.cssVisualViewport;
+  const marks: Mark[] = [];
+  for (const interactive of elements) {
+    const resolved = page.sessionForRef(interactive.ref);
+    const box = await resolved?.session.elementBox({ backendNodeId: resolved.backendNodeId });
+    if (!box)
+      continue;
+    const inViewport = box.x < viewport.clientWidth && box.y < viewport.clientHeight && box.x + box.width > 0 && box.y + box.height > 0;
+    if (!options.fullPage && !inViewport)
+      continue;
+    marks.push({ label: marks.length + 1, ref: interactive.ref, role: interactive.role, name: interactive.name, box });
+  }
+
+  await page.evaluate(drawMarksInPage, OVERLAY_ID, marks.map(mark => ({ label: mark.label, box: mark.box })));
+  try {
+    const screenshot = await captureScreenshot(page, options, element);
+    return { ...screenshot, marks };
+  } finally {
+    await page.evaluate(function(overlayId: string) {
+      this.getElementById(overlayId)?.remove();
+    }, OVERLAY_ID).catch(() => {});
+  }
+}
+
+function drawMarksInPage(this: Document, overlayId: string, marks: { label: number; box: Box }[]): void {
+  this.getElementById(overlayId)?.remove();
+  const view = this.defaultView!;
+  const overlay = this.createElement('div');
+  overlay.id = overlayId;
+  overlay.style.cssText = 'position: absolute; left: 0; top: 0; width: 0; height: 0; z-index: 2147483647; pointer-events: none;';
+  // A shadow root keeps page styles from leaking into the labels.
+  const root = overlay.attachShadow({ mode: 'closed' });
+  const colors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080'];
+  for (const mark of marks) {
+    const color = colors[mark.label % colors.length];
+    const left = mark.box.x + view.scrollX;
+    const top = mark.box.y + view.scrollY;
+    const box = this.createElement('div');
+    box.style.cssText = `position: absolute; left: ${left}px; top: ${top}px; width: ${mark.box.width}px; height: ${mark.box.height}px; outline: 2px solid ${color}; box-sizing: border-box;`;
+    const label = this.createElement('div');
+    label.textContent = String(mark.label);
+    label.style.cssText = `position: absolute; left: ${left}px; top: ${Math.max(0, top - 16)}px; padding: 0 3px; font: bold 12px/16px monospace; color: white; background: ${color};`;
+    root.append(box, label);
+  }
+  this.documentElement.appendChild(overlay);
+}
@@ -0,0 +1,122 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Scrolling for the Sid Voice controlled tab: by pages or pixels, to the top or
+ * bottom, or until an element is in view. Every scroll reports the resulting
+ * position so Sid can tell when the end of the page has been reached.
+ */
+
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor } from './pageExecutor';
+
+export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
+
+export type ScrollOptions = {
+  direction?: ScrollDirection;
+  amount?: number; // Defaults to 1 page
+  unit?: 'pages' | 'pixels';
+  to?: 'top' | 'bottom';
+};
+
+export type ScrollPosition = {
+  x: number;
+  y: number;
+  maxX: number;
+  maxY: number;
+  atTop: boolean;
+  atBottom: boolean;
+  atLeft: boolean;
+  atRight: boolean;
+};
+
+/**
+ * With a direction or `to`, scrolls the scrollable container at or around `objectId`,
+ * or the page when no element is given. Pages whose document does not scroll (common
+ * in Jira and Confluence) fall back to the largest scrollable element on screen.
+ * With neither, scrolls the element at `objectId` into the middle of the viewport.
+ */
+export async function scroll(page: PageExecutor, objectId: string | undefined, options: ScrollOptions): Promise<ScrollPosition> {
+  if (options.direction && !['up', 'down', 'left', 'right'].includes(options.direction))
+    throw new CommandError('INVALID_PARAMS', `Unknown scroll direction: ${options.direction}`);
+  if (options.to && !['top', 'bottom'].includes(options.to))
+    throw new CommandError('INVALID_PARAMS', `Unknown scroll position: ${options.to}`);
+  if (!options.direction && !options.to && !objectId)
+    throw new CommandError('INVALID_PARAMS', 'Scrolling needs a direction, a "to" position or an element to scroll into view');
+  if (objectId)
+    return await page.callOn(objectId, scrollInPage, options);
+  return await page.evaluate(scrollInPage, options);
+}
+
+function scrollInPage(this: Element | Document, options: ScrollOptions): ScrollPosition {
+  const document = this instanceof Document ? this : this.ownerDocument;
+  const pageScroller = document.scrollingElement ?? document.documentElement;
+  const isScrollable = (element: Element) => {
+    if (element === pageScroller)
+      return element.scrollHeight > element.clientHeight || element.scrollWidth > element.clientWidth;
+    const style = getComputedStyle(element);
+    return (element.scrollHeight > element.clientHeight && /auto|scroll|overlay/.test(style.overflowY))
+      || (element.scrollWidth > element.clientWidth && /auto|scroll|overlay/.test(style.overflowX));
+  };
+  const closestScrollable = (element: Element | null) => {
+    for (let current = element; current; current = current.parentElement) {
+      if (isScrollable(current))
+        return current;
+    }
+    return pageScroller;
+  };
+  const largestVisibleScrollable = () => {
+    let best: Element = pageScroller;
+    let bestArea = 0;
+    for (const element of Array.from(document.body?.querySelectorAll('*') ?? [])) {
+      const rect = element.getBoundingClientRect();
+      const area = Math.max(0, Math.min(rect.bottom, innerHeight) - Math.max(rect.top, 0)) * Math.max(0, Math.min(rect.right, innerWidth) - Math.max(rect.left, 0));
+      if (area > bestArea && isScrollable(element)) {
+        best = element;
+        bestArea = area;
+      }
+    }
+    return best;
+  };
+
+  let scroller: Element;
+  if (!options.direction && !options.to) {
+    const element = this as Element;
+    element.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'instant' });
+    scroller = closestScrollable(element.parentElement);
+  } else {
+    if (this instanceof Document)
+      scroller = isScrollable(pageScroller) ? pageScroller : largestVisibleScrollable();
+    else
+      scroller = closestScrollable(this);
+
+    const isPage = scroller === pageScroller;
+    const pageWidth = isPage ? innerWidth : scroller.clientWidth;
+    const pageHeight = isPage ? innerHeight : scroller.clientHeight;
+    if (options.to === 'top') {
+      scroller.scrollTo({ top: 0, behavior: 'instant' });
+    } else if (options.to === 'bottom') {
+      scroller.scrollTo({ top: scroller.scrollHeight, behavior: 'instant' });
+    } else {
+      const amount = options.amount ?? 1;
+      const horizontal = options.direction === 'left' || options.direction === 'right';
+      // Keep a little overlap between pages so the reader does not lose their place.
+      const pixels = options.unit === 'pixels' ? amount : amount * (horizontal ? pageWidth : pageHeight) * 0.9;
+      const sign = options.direction === 'up' || options.direction === 'left' ? -1 : 1;
+      scroller.scrollBy({ left: horizontal ? sign * pixels : 0, top: horizontal ? 0 : sign * pixels, behavior: 'instant' });
+    }
+  }
+
+  const maxX = Math.max(0, scroller.scrollWidth - scroller.clientWidth);
+  const maxY = Math.max(0, scroller.scrollHeight - scroller.clientHeight);
+  return {
+    x: Math.round(scroller.scrollLeft),
+    y: Math.round(scroller.scrollTop),
+    maxX,
+    maxY,
+    atTop: scroller.scrollTop <= 0,
+    atBottom: scroller.scrollTop >= maxY - 1,
+    atLeft: scroller.scrollLeft <= 0,
+    atRight: scroller.scrollLeft >= maxX - 1,
+  };
+}
@@ -6,18 +6,162 @@
  */
 
 import { debugLog } from './relayConnection';
+import { buildAriaSnapshot, interactiveElements } from './ariaSnapshot';
+import { PageExecutor, describeTarget, hasTarget } from './pageExecutor';
+import { waitForActionablePoint, dispatchClick, dispatchHover, dispatchDrag, focusForTyping, typeText, pressKey } from './input';
+import { waitForNavigation, traverseHistory, navigate, navigateTab } from './navigation';
+import { waitForElementState, waitForText, waitForUrl, waitForPredicate } from './waits';
+import { scroll } from './scroll';
+import { selectOption, setChecked, setInputValue } from './formControls';
+import { captureScreenshot, captureAnnotatedScreenshot } from './screenshots';
+import { BROWSER_EVENT_TYPES, isBrowserEventType, watchBrowserEvents } from './browserEvents';
+import { DIALOG_POLICIES, answerDialog, describeDialog, isDialogPolicy } from './dialogs';
+import { PageActivity, toHar } from './pageActivity';
+import { extractContent } from './contentExtraction';
+import { MIN_SID_VOICE_PROTOCOL_VERSION, SID_VOICE_PROTOCOL_VERSION, isCommandType, negotiatedProtocolVersion, registerMessage, validateCommand } from './sidVoiceProtocol';
+import { CommandError, toCommandErrorInfo } from './commandErrors';
+import { CommandQueue, DEFAULT_COMMAND_TIMEOUT, withDeadline } from './commandQueue';
+
+import type { Locator } from './locators';
+import type { ElementTarget, ElementHandle } from './pageExecutor';
+import type { MouseButton, ModifierKey, Point } from './input';
+import type { WaitUntil, NavigationOptions, NavigateOutcome } from './navigation';
+import type { ElementState } from './waits';
+import type { ScrollDirection } from './scroll';
+import type { OptionSpec } from './formControls';
+import type { ScreenshotFormat } from './screenshots';
+import type { BrowserEventType } from './browserEvents';
+import type { DialogPolicy, JavaScriptDialog } from './dialogs';
+import type { ConsoleLevel } from './pageActivity';
+import type { CommandType } from './sidVoiceProtocol';
+import type { CommandErrorInfo, ErrorCode } from './commandErrors';
+import type { TaskInfo } from './commandQueue';
 
 // Sid Voice server endpoints (uses wss:// for WebSocket)
 const VOICE_SERVER_PROD = 'wss://voice.dev.simpligov.com';
 const VOICE_SERVER_STAGE = 'wss://voice-stage.dev.simpligov.com';
 
+// Tabs Sid opens are collected in a tab group per window, so users can tell them apart from their own.
+const SID_TAB_GROUP_TITLE = 'Sid';
+const SID_TAB_GROUP_COLOR = 'purple';
+// Ids of the groups Sid created, so a group the user named "Sid" is never closed. Group ids only
+// live as long as the browser session, like this storage area.
+const SID_TAB_GROUPS_KEY = 'sidVoiceTabGroups';
+
+// Commands that do not run script or input in the page, so an open dialog does not block them.
+const DIALOG_SAFE_COMMANDS: readonly string[] = [
+  'getTabs', 'selectTab', 'newTab', 'closeTab', 'duplicateTab', 'pinTab', 'moveTab', 'focusWindow', 'handleDialog', 'setDialogPolicy',
+  'getConsoleMessages', 'getNetworkRequests',
+];
+
+const HEARTBEAT_INTERVAL = 30000;
+// A pong slower than this means the socket is half-open, e.g. after the laptop slept or the network changed.
+const PONG_TIMEOUT = 10000;
+const MAX_RECONNECT_DELAY = 30000;
+// Close codes of a server that rejected the email; retrying would fail the same way.
+const AUTH_FAILURE_CLOSE_CODES = [1008, 4001, 4003];
+
+// Commands that only read state or answer a dialog, so they run right away instead of waiting in the queue.
+const IMMEDIATE_COMMANDS: readonly string[] = ['getTabs', 'handleDialog', 'setDialogPolicy', 'getConsoleMessages', 'getNetworkRequests'];
+
+// Only the last of several navigations can win, so a new one supersedes those still queued or running.
+const NAVIGATION_COMMANDS: readonly string[] = ['navigate', 'goBack', 'goForward', 'reload'];
+
+// A single queue for the connection rather than one per tab: commands act on whichever tab is
+// controlled when they run, and selectTab, newTab or a first navigate change it for those queued behind them.
+const COMMAND_QUEUE_KEY = 'sidVoice';
 export interface BrowserCommand {
-  type: 'navigate' | 'click' | 'type' | 'snapshot' | 'screenshot' | 'getTabs' | 'selectTab';
-  id?: string; // Command ID for response correlation
+  type: CommandType;
+  id?: string; // Command ID for response correlation and cancel
+  commandTimeout?: number; // Deadline for the whole command (ms), defaults to the configured command timeout
+  supersede?: boolean; // Abort every command still queued or running first
   url?: string;
   selector?: string;
+  ref?: string; // Element ref from the last snapshot, e.g. "e42"
+  locator?: Locator; // Role/name, text, label, placeholder or test id
   text?: string;
   tabId?: number;
+  button?: MouseButton; // Click button, defaults to left
+  clickCount?: number; // 2 for a double-click
+  modifiers?: ModifierKey[]; // Keys held during the click, e.g. ["Control"]
+  timeout?: number; // How long to wait for actionability, navigation or a waitFor condition (ms)
+  clear?: boolean; // Replace the field's content when typing, defaults to true
+  delay?: number; // Delay between typed characters (ms); types via key events when set
+  submit?: boolean; // Press Enter after typing
+  key?: string; // Key or chord for press, e.g. "Enter", "Control+Enter", "Escape"
+  bypassCache?: boolean; // Reload ignoring the HTTP cache
+  waitUntil?: WaitUntil; // Navigation state to wait for: commit, domcontentloaded, load (default) or networkidle
+  state?: ElementState; // waitFor: attached, visible (default), hidden or detached
+  urlPattern?: string; // waitFor: substring, glob with *, or /regex/flags
+  predicate?: string; // waitFor: JavaScript expression that becomes truthy
+  direction?: ScrollDirection; // scroll: up, down, left or right
+  amount?: number; // scroll: how far, defaults to 1 page
+  unit?: 'pages' | 'pixels'; // scroll: unit of amount, defaults to pages
+  to?: 'top' | 'bottom'; // scroll: jump to the start or end
+  option?: OptionSpec | OptionSpec[]; // selectOption: value/label string or { value, label, index }; an array for multi-select
+  value?: string; // setInputValue: e.g. "2024-05-01", "13:30", "75"
+  dropTarget?: ElementTarget; // dragAndDrop: element to drop onto ({ ref }, { locator } or { selector })
+  dropPoint?: Point; // dragAndDrop: viewport coordinates to drop at instead of an element
+  steps?: number; // dragAndDrop: intermediate mouse moves, defaults to 10
+  fullPage?: boolean; // screenshot: capture the whole scrollable page
+  format?: ScreenshotFormat; // screenshot: png (default), jpeg or webp
+  quality?: number; // screenshot: 0-100 for jpeg and webp
+  maxDimension?: number; // screenshot: downscale so the longest side fits (px)
+  annotate?: boolean; // screenshot: label interactive elements and return a label -> ref map
+  windowId?: number; // newTab, moveTab: target window; focusWindow: window to focus
+  index?: number; // moveTab: position in the window, -1 (default) for the end
+  pinned?: boolean; // pinTab: false to unpin
+  active?: boolean; // newTab, duplicateTab: bring the new tab to the front, defaults to true
+  accept?: boolean; // handleDialog: accept (default) or dismiss the open dialog
+  promptText?: string; // handleDialog: text to enter into a prompt dialog
+  dialogPolicy?: DialogPolicy; // setDialogPolicy: ask (default), accept or dismiss dialogs nobody answers
+  level?: ConsoleLevel; // getConsoleMessages: minimum level (debug, info, warning, error)
+  filter?: string; // getConsoleMessages: message or URL substring; getNetworkRequests: URL substring
+  resourceType?: string; // getNetworkRequests: e.g. Document, XHR, Fetch, Script
+  since?: number; // getConsoleMessages, getNetworkRequests: only entries after this time (ms since epoch)
+  limit?: number; // getConsoleMessages, getNetworkRequests: only the most recent entries
+  har?: boolean; // getNetworkRequests: return a HAR 1.2 log instead of the entry list
+  maxLength?: number; // extractContent: characters per chunk, defaults to 10000
+  cursor?: string; // extractContent: nextCursor of the previous chunk
+  includeLinks?: boolean; // extractContent: render links as [text](url)
+  commands?: BrowserCommand[]; // batch: commands to run in order
+  onError?: 'stop' | 'continue'; // batch: skip the remaining commands after a failure (default) or run them anyway
+  snapshot?: boolean; // batch: take a snapshot after the last command
+}
+
+// What Sid sees of a browser tab.
+interface TabInfo {
+  id?: number;
+  windowId: number;
+  index: number;
+  title?: string;
+  url?: string;
+  active: boolean;
+  pinned: boolean;
+  audible?: boolean;
+  groupId?: number; // Tab group, absent for ungrouped tabs
+  controlled: boolean; // Whether this is the tab Sid's page commands act on
+}
+
+// What the status page shows about the Sid Voice connection.
+export type SidVoiceStatus =
+  | { state: 'disconnected' }
+  | { state: 'connecting' }
+  | { state: 'connected'; protocolVersion: number | null } // null until the server answered the handshake
+  | { state: 'reconnecting'; retryAt: number; attempt: number } // retryAt in ms since epoch
+  | { state: 'offline' } // Waiting for the network to come back
+  | { state: 'authFailed'; message: string }
+  | { state: 'incompatible'; message: string };
+
+// Outcome of one command of a batch.
+interface BatchStepResult {
+  index: number;
+  type: CommandType;
+  id?: string;
+  success: boolean;
+  data?: unknown;
+  error?: CommandErrorInfo;
+  duration: number; // ms
 }
 
 export interface BrowserResponse {
@@ -25,41 +169,118 @@ export interface BrowserResponse {
   id?: string; // Correlate with command ID
   success: boolean;
   data?: unknown;
-  error?: string;
+  error?: CommandErrorInfo;
+}
+
+// Sent without a request for every event type the server subscribed to.
+export interface BrowserEventMessage {
+  type: 'event';
+  event: BrowserEventType;
+  timestamp: number;
+  tabId?: number;
+  controlled?: boolean; // Whether the event concerns the tab Sid controls
+  [key: string]: unknown;
+}
+
+function errorResponse(code: ErrorCode, message: string, details?: Record<string, unknown>): BrowserResponse {
+  return { type: 'response', success: false, error: { code, message, details } };
 }
 
 export class SidVoiceConnection {
   private _ws: WebSocket | null = null;
   private _email: string = '';
   private _debuggee: chrome.debugger.Debuggee = {};
+  private _page: PageExecutor | null = null;
   private _connectedTabId: number | null = null;
   private _eventListener: ((source: chrome.debugger.DebuggerSession, method: string, params: unknown) => void) | null = null;
   private _serverUrl: string = VOICE_SERVER_PROD;
   private _reconnectAttempts: number = 0;
   private _reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private _pingTimer: ReturnType<typeof setInterval> | null = null;
+  private _pongTimer: ReturnType<typeof setTimeout> | null = null;
+  // Whether to come back after the socket drops; off after a user disconnect, a failed auth or an incompatible server.
+  private _autoReconnect = false;
+  private _status: SidVoiceStatus = { state: 'disconnected' };
+  // Event types the server asked for; reset with every new socket.
+  private _subscriptions = new Set<BrowserEventType>();
+  private _dialog: JavaScriptDialog | null = null;
+  private _dialogPolicy: DialogPolicy = 'ask';
+  private _dialogListeners = new Set<(dialog: JavaScriptDialog) => void>();
+  private _activity = new PageActivity();
+  private _queue = new CommandQueue();
+  private _commandTimeout = DEFAULT_COMMAND_TIMEOUT;
+  private _protocolVersion: number | null = null;
 
-  onStatusChange?: (connected: boolean, email?: string) => void;
+  onStatusChange?: (status: SidVoiceStatus) => void;
   onError?: (error: string) => void;
 
   constructor() {
     // Load saved configuration
     this._loadConfig();
+
+    // Registered before the listeners below, so tabClosed still knows the tab was controlled.
+    watchBrowserEvents((event, data) => this._emitEvent(event, data));
+    chrome.tabs.onRemoved.addListener(tabId => {
+      this._activity.forgetTab(tabId);
+      if (tabId !== this._connectedTabId)
+        return;
+      debugLog('Controlled tab was closed:', tabId);
+      this._releaseTab();
+    });
+    chrome.debugger.onDetach.addListener((source, reason) => {
+      if (source.tabId !== this._debuggee.tabId)
+        return;
+      // E.g. the user dismissed the debugging infobar; the next command attaches again.
+      debugLog('Debugger detached from tab:', source.tabId, reason);
+      this._debuggee = {};
+      this._page = null;
+      this._dialog = null;
+    });
+    // The command timeout is set on the status page.
+    chrome.storage.onChanged.addListener((changes, area) => {
+      if (area === 'local' && changes.sidVoiceCommandTimeout)
+        this._setCommandTimeout(changes.sidVoiceCommandTimeout.newValue);
+    });
+    globalThis.addEventListener('online', () => this._onOnline());
+    globalThis.addEventListener('offline', () => this._onOffline());
   }
 
   private async _loadConfig(): Promise<void> {
-    const result = await chrome.storage.local.get(['sidVoiceEmail', 'sidVoiceServer']);
+    const result = await chrome.storage.local.get(['sidVoiceEmail', 'sidVoiceServer', 'sidVoiceDialogPolicy', 'sidVoiceCommandTimeout']);
     if (result.sidVoiceEmail) {
       this._email = result.sidVoiceEmail;
     }
     if (result.sidVoiceServer) {
       this._serverUrl = result.sidVoiceServer;
     }
+    if (isDialogPolicy(result.sidVoiceDialogPolicy)) {
+      this._dialogPolicy = result.sidVoiceDialogPolicy;
+    }
+    if (result.sidVoiceCommandTimeout !== undefined) {
+      this._setCommandTimeout(result.sidVoiceCommandTimeout);
+    }
+  }
+
+  // Falls back to the default when the setting was removed, and keeps the current timeout for invalid values.
+  private _setCommandTimeout(timeout: unknown): void {
+    if (timeout === undefined) {
+      this._commandTimeout = DEFAULT_COMMAND_TIMEOUT;
+    } else if (Number.isInteger(timeout) && (timeout as number) > 0) {
+      this._commandTimeout = timeout as number;
+    } else {
+      debugLog('Ignoring invalid command timeout:', timeout);
+      return;
+    }
+    debugLog('Command timeout:', this._commandTimeout);
   }
 
   async connect(email: string, useStaging: boolean = false): Promise<void> {
     this._email = email;
     this._serverUrl = useStaging ? VOICE_SERVER_STAGE : VOICE_SERVER_PROD;
+    this._autoReconnect = true;
+    this._reconnectAttempts = 0;
+    this._cancelReconnect();
+    this._closeSocket(1000, 'Reconnecting');
 
     // Save configuration
     await chrome.storage.local.set({
@@ -73,65 +294,96 @@ export class SidVoiceConnection {
   }
 
   private async _doConnect(): Promise<void> {
+    this._setStatus({ state: 'connecting' });
     return new Promise((resolve, reject) => {
       try {
         // Connect to the /browser WebSocket endpoint
         const wsUrl = `${this._serverUrl}/browser?email=${encodeURIComponent(this._email)}`;
-        this._ws = new WebSocket(wsUrl);
+        const ws = new WebSocket(wsUrl);
+        this._ws = ws;
 
-        this._ws.onopen = () => {
+        ws.onopen = () => {
           debugLog('Connected to Sid Voice browser endpoint');
           this._reconnectAttempts = 0;
-          
+          this._protocolVersion = null;
+
           // Send initial handshake
-          this._send({
-            type: 'register',
-            email: this._email,
-          });
+          this._send(registerMessage(this._email));
           
           // Start ping/pong keepalive
-          this._startPing();
+          this._startHeartbeat();
           
-          this.onStatusChange?.(true, this._email);
+          this._setStatus({ state: 'connected', protocolVersion: null });
           resolve();
         };
 
-        this._ws.onmessage = async (event) => {
+        ws.onmessage = async (event) => {
+          // A socket that was replaced or given up on.
+          if (this._ws !== ws)
+            return;
+          let data;
           try {
-            const data = JSON.parse(event.data);
-            debugLog('Received message:', data.type);
-            
-            // Handle browser commands (navigate, click, type, snapshot, screenshot, etc.)
-            const commandTypes = ['navigate', 'click', 'type', 'snapshot', 'screenshot', 'getTabs', 'selectTab'];
-            if (commandTypes.includes(data.type)) {
-              debugLog('Received browser command:', data);
-              const response = await this._handleCommand(data as BrowserCommand);
-              response.id = data.id;
-              this._send(response);
-            } else if (data.type === 'pong') {
-              // Keepalive response
-            } else if (data.type === 'registered') {
-              debugLog('Registered with Sid Voice server');
-            }
+            data = JSON.parse(event.data);
           } catch (error) {
             debugLog('Error parsing message:', error);
+            this._sendResponse(errorResponse('INVALID_MESSAGE', 'Message is not valid JSON'));
+            return;
+          }
+          if (typeof data !== 'object' || data === null || typeof data.type !== 'string') {
+            this._sendResponse({ ...errorResponse('INVALID_MESSAGE', 'Message must be an object with a string type'), id: typeof data?.id === 'string' ? data.id : undefined });
+            return;
+          }
+          debugLog('Received message:', data.type);
+
+          // Handle browser commands (navigate, click, type, snapshot, screenshot, etc.)
+          if (isCommandType(data.type)) {
+            debugLog('Received browser command:', data);
+            const problems = validateCommand(data);
+            const response = problems.length
+              ? errorResponse('INVALID_PARAMS', `Invalid ${data.type} command: ${problems.join('; ')}`, { problems })
+              : await this._runCommand(data as BrowserCommand);
+            response.id = data.id;
+            this._sendResponse(response);
+          } else if (data.type === 'cancel') {
+            this._sendResponse({ ...this._cancelCommand(data.commandId), id: data.id });
+          } else if (data.type === 'subscribe' || data.type === 'unsubscribe') {
+            this._sendResponse({ ...this._updateSubscriptions(data.type, data.events), id: data.id });
+          } else if (data.type === 'pong') {
+            this._onPong();
+          } else if (data.type === 'registered') {
+            this._onRegistered(data);
+          } else if (data.type === 'error' || data.type === 'response') {
+            // Never answered, so two peers that do not understand each other cannot loop.
+            debugLog('Unexpected message from Sid Voice:', data);
+          } else {
+            this._sendResponse({ ...errorResponse('UNKNOWN_COMMAND', `Unknown message type: ${data.type}`), id: data.id });
           }
         };
 
-        this._ws.onclose = (event) => {
+        ws.onclose = (event) => {
+          reject(new Error(`Connection closed (${event.code})`));
+          // Closed by _closeSocket, which already cleaned up.
+          if (this._ws !== ws)
+            return;
           debugLog('Disconnected from Sid Voice:', event.code, event.reason);
-          this._stopPing();
-          this.onStatusChange?.(false);
-          
-          // Attempt reconnect if not intentional disconnect
-          if (event.code !== 1000 && this._email) {
+          this._ws = null;
+          this._onSocketClosed();
+
+          if (AUTH_FAILURE_CLOSE_CODES.includes(event.code)) {
+            this._autoReconnect = false;
+            this._setStatus({ state: 'authFailed', message: event.reason || `Sid Voice did not accept ${this._email}` });
+          } else if (event.code !== 1000 && this._autoReconnect) {
+            // Attempt reconnect if not intentional disconnect
             this._scheduleReconnect();
+          } else {
+            this._setStatus({ state: 'disconnected' });
           }
         };
 
-        this._ws.onerror = (error) => {
+        ws.onerror = (error) => {
           debugLog('WebSocket error:', error);
-          this.onError?.('Connection error');
+          if (this._ws === ws)
+            this.onError?.('Connection error');
           reject(new Error('Connection error'));
         };
       } catch (error) {
@@ -143,14 +395,96 @@ export class SidVoiceConnection {
     });
   }
 
+  private _onRegistered(registered: { protocolVersion?: unknown }): void {
+    const version = negotiatedProtocolVersion(registered);
+    if (version === undefined) {
+      const extensionVersion = chrome.runtime.getManifest().version;
+      const serverVersion = JSON.stringify(registered.protocolVersion);
+      let message = `The server speaks protocol version ${serverVersion}, but SimpliDev Browser Extension ${extensionVersion} supports versions ${MIN_SID_VOICE_PROTOCOL_VERSION}-${SID_VOICE_PROTOCOL_VERSION}.`;
+      if (typeof registered.protocolVersion === 'number' && registered.protocolVersion > SID_VOICE_PROTOCOL_VERSION)
+        message += ' Please update the extension.';
+      debugLog('Incompatible Sid Voice server:', message);
+      this.onError?.(message);
+      // No reconnect is attempted against the same server.
+      this._autoReconnect = false;
+      this._closeSocket(1000, 'Incompatible protocol version');
+      this._setStatus({ state: 'incompatible', message });
+      return;
+    }
+    this._protocolVersion = version;
+    debugLog(`Registered with Sid Voice server (protocol version ${version})`);
+    this._setStatus({ state: 'connected', protocolVersion: version });
+  }
+
+  /**
+   * Reconnects right away instead of waiting for the backoff, e.g. for "Retry now" on the status page.
+   */
+  async retryNow(): Promise<void> {
+    if (!this._email)
+      throw new Error('Connect to Sid Voice with your email first');
+    debugLog('Retrying Sid Voice connection now');
+    this._autoReconnect = true;
+    this._reconnectAttempts = 0;
+    this._cancelReconnect();
+    this._closeSocket(1000, 'Retrying');
+    await this._doConnect();
+  }
+
+  private _setStatus(status: SidVoiceStatus): void {
+    this._status = status;
+    this.onStatusChange?.(status);
+  }
+
+  // Drops the socket without waiting for its close event, which a half-open socket may only deliver minutes later.
+  private _closeSocket(code: number, reason: string): void {
+    const ws = this._ws;
+    if (!ws)
+      return;
+    this._ws = null;
+    ws.close(code, reason);
+    this._onSocketClosed();
+  }
+
+  // Resets what belonged to the socket that just closed.
+  private _onSocketClosed(): void {
+    this._stopHeartbeat();
+    this._subscriptions.clear();
+    this._queue.cancelAll('The connection to Sid Voice closed');
+  }
+
+  private _onOnline(): void {
+    if (!this._autoReconnect || this._ws)
+      return;
+    debugLog('Network is back, reconnecting to Sid Voice');
+    this.retryNow().catch(() => {
+      // Will schedule another reconnect via onclose
+    });
+  }
+
+  private _onOffline(): void {
+    // Retries would only fail until the online event; an open socket is caught by its heartbeat.
+    if (!this._reconnectTimer)
+      return;
+    this._cancelReconnect();
+    this._setStatus({ state: 'offline' });
+  }
+
   private _scheduleReconnect(): void {
     if (this._reconnectTimer) return;
+    if (!navigator.onLine) {
+      // The online listener reconnects once the network is back.
+      this._setStatus({ state: 'offline' });
+      return;
+    }
     
-    // Exponential backoff: 1, 2, 4, 8, 16, 30, 30, 30...
-    const delay = Math.min(Math.pow(2, this._reconnectAttempts) * 1000, 30000);
+    // Exponential backoff: 1, 2, 4, 8, 16, 30, 30, 30... seconds, each randomly shortened by up to half
+    // so extensions dropped by the same server restart do not all come back at once.
+    const backoff = Math.min(Math.pow(2, this._reconnectAttempts) * 1000, MAX_RECONNECT_DELAY);
+    const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
     this._reconnectAttempts++;
     
     debugLog(`Scheduling reconnect in ${delay}ms (attempt ${this._reconnectAttempts})`);
+    this._setStatus({ state: 'reconnecting', retryAt: Date.now() + delay, attempt: this._reconnectAttempts });
     
     this._reconnectTimer = setTimeout(async () => {
       this._reconnectTimer = null;
@@ -162,20 +496,76 @@ export class SidVoiceConnection {
     }, delay);
   }
 
-  private _startPing(): void {
-    this._stopPing();
+  private _cancelReconnect(): void {
+    if (this._reconnectTimer) {
+      clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = null;
+    }
+  }
+
+  private _startHeartbeat(): void {
+    this._stopHeartbeat();
     this._pingTimer = setInterval(() => {
-      if (this._ws?.readyState === WebSocket.OPEN) {
-        this._send({ type: 'ping' });
-      }
-    }, 30000);
+      if (this._ws?.readyState !== WebSocket.OPEN)
+        return;
+      this._send({ type: 'ping' });
+      this._pongTimer ??= setTimeout(() => {
+        debugLog(`No pong within ${PONG_TIMEOUT}ms, dropping the Sid Voice connection`);
+        this._closeSocket(4000, 'Heartbeat timeout');
+        if (this._autoReconnect)
+          this._scheduleReconnect();
+        else
+          this._setStatus({ state: 'disconnected' });
+      }, PONG_TIMEOUT);
+    }, HEARTBEAT_INTERVAL);
   }
 
-  private _stopPing(): void {
+  private _onPong(): void {
+    if (this._pongTimer) {
+      clearTimeout(this._pongTimer);
+      this._pongTimer = null;
+    }
+  }
+
+  private _stopHeartbeat(): void {
     if (this._pingTimer) {
       clearInterval(this._pingTimer);
       this._pingTimer = null;
     }
+    this._onPong();
+  }
+
+  // Handles subscribe/unsubscribe messages; without an events list they apply to every event type.
+  private _updateSubscriptions(action: 'subscribe' | 'unsubscribe', events?: unknown): BrowserResponse {
+    const requested = events === undefined ? [...BROWSER_EVENT_TYPES] : events;
+    if (!Array.isArray(requested) || !requested.every(isBrowserEventType)) {
+      return errorResponse('INVALID_PARAMS', `events must be a list of: ${BROWSER_EVENT_TYPES.join(', ')}`);
+    }
+    for (const event of requested) {
+      if (action === 'subscribe')
+        this._subscriptions.add(event);
+      else
+        this._subscriptions.delete(event);
+    }
+    debugLog('Event subscriptions:', [...this._subscriptions]);
+    return { type: 'response', success: true, data: { events: [...this._subscriptions] } };
+  }
+
+  private _emitEvent(event: BrowserEventType, data: Record<string, unknown>): void {
+    if (!this._subscriptions.has(event))
+      return;
+    const message: BrowserEventMessage = { type: 'event', event, timestamp: Date.now(), ...data };
+    if (typeof data.tabId === 'number')
+      message.controlled = data.tabId === this._connectedTabId;
+    this._send(message);
+  }
+
+  private _sendResponse(response: BrowserResponse): void {
+    // Before protocol version 3 errors were plain message strings.
+    if (response.error && this._protocolVersion !== null && this._protocolVersion < 3)
+      this._send({ ...response, error: response.error.message });
+    else
+      this._send(response);
   }
 
   private _send(data: object): void {
@@ -185,18 +575,15 @@ export class SidVoiceConnection {
   }
 
   async disconnect(): Promise<void> {
-    if (this._reconnectTimer) {
-      clearTimeout(this._reconnectTimer);
-      this._reconnectTimer = null;
-    }
-    this._stopPing();
-    
-    if (this._ws) {
-      this._ws.close(1000, 'User disconnected');
-      this._ws = null;
-    }
+    const { sidVoiceCloseTabsOnDisconnect } = await chrome.storage.local.get('sidVoiceCloseTabsOnDisconnect');
+    if (sidVoiceCloseTabsOnDisconnect)
+      await this.closeSidTabs().catch(error => debugLog('Failed to close Sid tabs:', error));
+
+    this._autoReconnect = false;
+    this._cancelReconnect();
+    this._closeSocket(1000, 'User disconnected');
     this._cleanup();
-    this.onStatusChange?.(false);
+    this._setStatus({ state: 'disconnected' });
   }
 
   private _cleanup(): void {
@@ -207,62 +594,512 @@ export class SidVoiceConnection {
     if (this._debuggee.tabId) {
       chrome.debugger.detach(this._debuggee).catch(() => {});
       this._debuggee = {};
+      this._page = null;
     }
     this._connectedTabId = null;
   }
 
-  private async _handleCommand(command: BrowserCommand): Promise<BrowserResponse> {
+  // Page commands act on `tabId` from now on. A dialog of the previous tab must not block them,
+  // and its close event would no longer reach us.
+  private _controlTab(tabId: number): void {
+    if (tabId !== this._connectedTabId)
+      this._dialog = null;
+    this._connectedTabId = tabId;
+  }
+
+  // Forgets the controlled tab after it was closed, without touching the debugger.
+  private _releaseTab(): void {
+    this._debuggee = {};
+    this._page = null;
+    this._connectedTabId = null;
+    this._dialog = null;
+  }
+
+  // Queues the command behind the ones already sent and enforces its deadline.
+  private async _runCommand(command: BrowserCommand): Promise<BrowserResponse> {
+    if (IMMEDIATE_COMMANDS.includes(command.type)) {
+      return this._handleCommand(command);
+    }
+
+    let supersedes: ((task: TaskInfo) => boolean) | undefined;
+    if (command.supersede)
+      supersedes = () => true;
+    else if (NAVIGATION_COMMANDS.includes(command.type))
+      supersedes = task => NAVIGATION_COMMANDS.includes(task.type);
+    // Filled in by a batch as its commands finish, so an aborted batch still reports them.
+    const steps: BatchStepResult[] = [];
+    const start = Date.now();
+    try {
+      const execute = command.type === 'batch'
+        ? (signal: AbortSignal) => this._runBatch(command, signal, steps)
+        : (signal: AbortSignal) => this._handleCommand(command, signal);
+      return await this._queue.run(COMMAND_QUEUE_KEY, command, this._commandTimeoutFor(command), execute, supersedes);
+    } catch (error) {
+      debugLog(`Command ${command.type} aborted:`, error);
+      const response: BrowserResponse = { type: 'response', success: false, error: toCommandErrorInfo(error) };
+      if (command.type === 'batch')
+        response.data = this._batchSummary(command, [...steps], start);
+      return response;
+    }
+  }
+
+  // Never cuts short the command's own waits, e.g. a 45s waitFor. A batch gets the sum of its commands' deadlines,
+  // plus one for the final snapshot.
+  private _commandTimeoutFor(command: BrowserCommand): number {
+    if (command.commandTimeout !== undefined)
+      return command.commandTimeout;
+    if (command.type === 'batch') {
+      const snapshot = command.snapshot ? this._commandTimeoutFor({ type: 'snapshot' }) : 0;
+      return (command.commands ?? []).reduce((total, step) => total + this._commandTimeoutFor(step), snapshot);
+    }
+    return Math.max(this._commandTimeout, (command.timeout ?? 0) + 5000);
+  }
+
+  // Runs the commands of a batch in order as a single queue entry, each with its own deadline.
+  // Results are added to `steps` as the commands finish.
+  private async _runBatch(batch: BrowserCommand, signal: AbortSignal, steps: BatchStepResult[]): Promise<BrowserResponse> {
+    const commands = batch.commands ?? [];
+    const start = Date.now();
+    for (const [index, command] of commands.entries()) {
+      const stepStart = Date.now();
+      let response: BrowserResponse;
+      try {
+        response = await withDeadline(command.type, this._commandTimeoutFor(command), signal, stepSignal => this._handleCommand(command, stepSignal));
+      } catch (error) {
+        // The whole batch was cancelled or timed out and has already been answered.
+        if (signal.aborted)
+          throw error;
+        response = { type: 'response', success: false, error: toCommandErrorInfo(error) };
+      }
+      steps.push({ index, type: command.type, id: command.id, success: response.success, data: response.data, error: response.error, duration: Date.now() - stepStart });
+      if (!response.success && batch.onError !== 'continue')
+        break;
+    }
+
+    const summary = this._batchSummary(batch, steps, start);
+    const failedStep = summary.failedStep;
+    const data: Record<string, unknown> = { ...summary };
+    // Also after a failure, so Sid can see where the page was left.
+    if (batch.snapshot) {
+      const snapshot = await this._handleCommand({ type: 'snapshot' });
+      if (snapshot.success)
+        data.snapshot = snapshot.data;
+      else
+        data.snapshotError = snapshot.error;
+    }
+
+    if (failedStep === undefined) {
+      return { type: 'response', success: true, data };
+    }
+    const error = steps[failedStep].error!;
+    return { ...errorResponse(error.code, `Step ${failedStep} (${commands[failedStep].type}) failed: ${error.message}`, { failedStep }), data };
+  }
+
+  private _batchSummary(batch: BrowserCommand, steps: BatchStepResult[], start: number): { steps: BatchStepResult[]; skipped: number; failedStep?: number; duration: number } {
+    const failedStep = steps.findIndex(step => !step.success);
+    return {
+      steps,
+      skipped: (batch.commands ?? []).length - steps.length,
+      failedStep: failedStep === -1 ? undefined : failedStep,
+      duration: Date.now() - start,
+    };
+  }
+
+  private _cancelCommand(commandId: unknown): BrowserResponse {
+    if (typeof commandId !== 'string') {
+      return errorResponse('INVALID_PARAMS', 'cancel needs the commandId of the command to cancel');
+    }
+    const task = this._queue.cancel(commandId);
+    debugLog('Cancel', commandId, task ? `(was ${task.state})` : '(not found)');
+    return { type: 'response', success: true, data: { cancelled: !!task, command: task } };
+  }
+
+  // `signal` aborts when the command is cancelled, superseded or past its deadline; waits and input stop at the next step.
+  private async _handleCommand(command: BrowserCommand, signal?: AbortSignal): Promise<BrowserResponse> {
+    // Script and input would hang behind an open dialog, so refuse them up front.
+    if (this._dialog && !DIALOG_SAFE_COMMANDS.includes(command.type)) {
+      return this._dialogBlockedResponse(this._dialog);
+    }
+
+    // A dialog opened by the command itself (e.g. a click on "Delete") blocks it as well;
+    // answer right away instead of waiting for a timeout.
+    let removeListener = () => {};
+    const dialogOpened = new Promise<BrowserResponse>(resolve => {
+      const listener = (dialog: JavaScriptDialog) => resolve(this._dialogBlockedResponse(dialog));
+      this._dialogListeners.add(listener);
+      removeListener = () => this._dialogListeners.delete(listener);
+    });
+    try {
+      return await Promise.race([this._executeCommand(command, signal), dialogOpened]);
+    } finally {
+      removeListener();
+    }
+  }
+
+  private _dialogBlockedResponse(dialog: JavaScriptDialog): BrowserResponse {
+    return {
+      ...errorResponse('DIALOG_OPEN', `A ${describeDialog(dialog)} is open and blocks the page. Use handleDialog to accept or dismiss it.`),
+      data: { dialog },
+    };
+  }
+
+  private async _executeCommand(command: BrowserCommand, signal?: AbortSignal): Promise<BrowserResponse> {
     try {
       switch (command.type) {
         case 'navigate':
-          return await this._navigate(command.url!);
+          return await this._navigate(command.url!, command, signal);
+        case 'goBack':
+          return await this._traverseHistory(-1, command, signal);
+        case 'goForward':
+          return await this._traverseHistory(1, command, signal);
+        case 'reload':
+          return await this._reload(!!command.bypassCache, command, signal);
+        case 'stop':
+          return await this._stop();
         case 'getTabs':
           return await this._getTabs();
         case 'selectTab':
           return await this._selectTab(command.tabId!);
+        case 'newTab':
+          return await this._newTab(command, signal);
+        case 'closeTab':
+          return await this._closeTab(command.tabId);
+        case 'duplicateTab':
+          return await this._duplicateTab(command);
+        case 'pinTab':
+          return await this._pinTab(command.tabId, command.pinned !== false);
+        case 'moveTab':
+          return await this._moveTab(command);
+        case 'focusWindow':
+          return await this._focusWindow(command);
+        case 'handleDialog':
+          return await this._handleDialog(command.accept !== false, command.promptText);
+        case 'setDialogPolicy':
+          return await this._setDialogPolicy(command.dialogPolicy);
+        case 'getConsoleMessages':
+          return this._getConsoleMessages(command);
+        case 'getNetworkRequests':
+          return this._getNetworkRequests(command);
         case 'click':
-          return await this._click(command.selector!);
+          return await this._click(command, signal);
+        case 'hover':
+          return await this._hover(command, signal);
+        case 'dragAndDrop':
+          return await this._dragAndDrop(command, signal);
         case 'type':
-          return await this._type(command.selector!, command.text!);
+          return await this._type(command, command.text!, signal);
+        case 'press':
+          return await this._press(command, command.key!, signal);
+        case 'selectOption':
+          return await this._formControl(command, (page, element) => selectOption(page, element, [command.option ?? []].flat()));
+        case 'check':
+        case 'uncheck':
+          return await this._formControl(command, (page, element) => setChecked(page, element, command.type === 'check', command.timeout, signal));
+        case 'setInputValue':
+          return await this._formControl(command, (page, element) => setInputValue(page, element, command.value ?? ''));
+        case 'scroll':
+          return await this._scroll(command);
+        case 'waitFor':
+          return await this._waitFor(command, signal);
         case 'snapshot':
           return await this._getSnapshot();
         case 'screenshot':
-          return await this._getScreenshot();
+          return await this._getScreenshot(command);
+        case 'extractContent':
+          return await this._extractContent(command);
         default:
-          return { type: 'response', success: false, error: `Unknown command: ${command.type}` };
+          return errorResponse('UNKNOWN_COMMAND', `Unknown command: ${command.type}`);
       }
     } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      return { type: 'response', success: false, error: message };
+      return { type: 'response', success: false, error: toCommandErrorInfo(error) };
     }
   }
 
-  private async _navigate(url: string): Promise<BrowserResponse> {
+  private async _navigate(url: string, options: NavigationOptions, signal?: AbortSignal): Promise<BrowserResponse> {
     debugLog('Navigating to:', url);
     
-    // Create or update tab
+    // Reuse the controlled tab, or open a blank one so the load can be observed from the start
     if (this._connectedTabId) {
-      await chrome.tabs.update(this._connectedTabId, { url, active: true });
+      await chrome.tabs.update(this._connectedTabId, { active: true });
     } else {
-      const tab = await chrome.tabs.create({ url, active: true });
-      this._connectedTabId = tab.id!;
+      const tab = await chrome.tabs.create({ url: 'about:blank', active: true });
+      this._controlTab(tab.id!);
+      await this._addToSidGroup(tab.id!);
+    }
+
+    let outcome: NavigateOutcome;
+    try {
+      outcome = await navigate(await this._ensureDebuggerAttached(), url, options, signal);
+    } catch (error) {
+      if (this._page || toCommandErrorInfo(error).code !== 'BLOCKED_BY_POLICY')
+        throw error;
+      // The debugger cannot attach to the current page (e.g. chrome://newtab), but the tabs API can
+      // still leave it. Page commands then work on the new page, if it allows the debugger.
+      debugLog('Cannot attach to the tab, navigating without the debugger:', error);
+      outcome = await navigateTab(this._connectedTabId!, url, options, signal);
+      await this._ensureDebuggerAttached().catch(attachError => debugLog('Cannot attach to the new page either:', attachError));
+    }
+    const { tabId, title } = await this._pageInfo();
+    const data = { tabId, title, ...outcome };
+
+    if (outcome.error) {
+      return { ...errorResponse(outcome.blocked ? 'BLOCKED_BY_POLICY' : 'NAVIGATION_FAILED', outcome.error), data };
+    }
+    return { type: 'response', success: true, data };
+  }
+
+  private async _traverseHistory(delta: number, options: NavigationOptions, signal?: AbortSignal): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    debugLog(delta < 0 ? 'Going back' : 'Going forward');
+
+    const page = await this._ensureDebuggerAttached();
+    await traverseHistory(page, delta, options, signal);
+
+    return { type: 'response', success: true, data: await this._pageInfo() };
+  }
+
+  private async _reload(bypassCache: boolean, options: NavigationOptions, signal?: AbortSignal): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    debugLog('Reloading', bypassCache ? '(bypassing cache)' : '');
+
+    const page = await this._ensureDebuggerAttached();
+    await waitForNavigation(page, () => page.send('Page.reload', { ignoreCache: bypassCache }), options, signal);
+
+    return { type: 'response', success: true, data: await this._pageInfo() };
+  }
+
+  private async _stop(): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    const page = await this._ensureDebuggerAttached();
+    await page.send('Page.stopLoading');
+
+    return { type: 'response', success: true, data: await this._pageInfo() };
+  }
+
+  private async _pageInfo(): Promise<{ tabId: number; url?: string; title?: string }> {
+    const tab = await chrome.tabs.get(this._connectedTabId!);
+    return { tabId: tab.id!, url: tab.url, title: tab.title };
+  }
+
+  private async _handleDialog(accept: boolean, promptText?: string): Promise<BrowserResponse> {
+    const dialog = this._dialog;
+    if (!dialog || !this._page) {
+      return errorResponse('NO_DIALOG', 'No dialog is open');
+    }
+
+    debugLog(accept ? 'Accepting' : 'Dismissing', describeDialog(dialog));
+
+    try {
+      await answerDialog(this._page, dialog, accept, promptText);
+    } catch (error) {
+      // E.g. the user closed it by hand and the close event was missed.
+      if (!/No dialog is showing/i.test(error instanceof Error ? error.message : String(error)))
+        throw error;
+      this._dialog = null;
+      return { ...errorResponse('NO_DIALOG', 'The dialog was already closed'), data: { dialog } };
     }
+    this._dialog = null;
+    return { type: 'response', success: true, data: { dialog, accepted: accept } };
+  }
 
-    return { type: 'response', success: true, data: { tabId: this._connectedTabId } };
+  private async _setDialogPolicy(policy: unknown): Promise<BrowserResponse> {
+    if (!isDialogPolicy(policy)) {
+      return errorResponse('INVALID_PARAMS', `dialogPolicy must be one of: ${DIALOG_POLICIES.join(', ')}`);
+    }
+
+    this._dialogPolicy = policy;
+    await chrome.storage.local.set({ sidVoiceDialogPolicy: policy });
+    return { type: 'response', success: true, data: { dialogPolicy: policy } };
+  }
+
+  private _onDialogOpening(tabId: number, dialog: JavaScriptDialog): void {
+    debugLog('Dialog opened:', describeDialog(dialog), 'policy:', this._dialogPolicy);
+    const { type: dialogType, ...details } = dialog;
+    this._emitEvent('dialogOpened', { tabId, dialogType, ...details, policy: this._dialogPolicy });
+
+    if (this._dialogPolicy !== 'ask' && this._page) {
+      answerDialog(this._page, dialog, this._dialogPolicy === 'accept').catch(error => debugLog('Failed to answer dialog:', error));
+      return;
+    }
+    this._dialog = dialog;
+    for (const listener of [...this._dialogListeners])
+      listener(dialog);
+  }
+
+  // Activity is recorded from the moment Sid attached to the tab, and kept after switching tabs.
+  private _getConsoleMessages(command: BrowserCommand): BrowserResponse {
+    const tabId = this._tabIdOrControlled(command.tabId);
+    const messages = this._activity.consoleMessages(tabId, { level: command.level, text: command.filter, since: command.since, limit: command.limit });
+    return { type: 'response', success: true, data: { tabId, messages } };
+  }
+
+  private _getNetworkRequests(command: BrowserCommand): BrowserResponse {
+    const tabId = this._tabIdOrControlled(command.tabId);
+    const requests = this._activity.networkRequests(tabId, { text: command.filter, resourceType: command.resourceType, since: command.since, limit: command.limit });
+    if (command.har) {
+      return { type: 'response', success: true, data: { tabId, har: toHar(requests) } };
+    }
+    return { type: 'response', success: true, data: { tabId, requests } };
   }
 
   private async _getTabs(): Promise<BrowserResponse> {
     const tabs = await chrome.tabs.query({});
     const filteredTabs = tabs
       .filter(tab => tab.url && !['chrome:', 'edge:', 'devtools:'].some(scheme => tab.url!.startsWith(scheme)))
-      .map(tab => ({
-        id: tab.id,
-        title: tab.title,
-        url: tab.url,
-        active: tab.active,
-      }));
+      .map(tab => this._tabInfo(tab));
+    const sidGroups = (await this._sidGroups()).map(group => ({
+      id: group.id,
+      windowId: group.windowId,
+      title: group.title,
+      color: group.color,
+      collapsed: group.collapsed,
+      tabIds: tabs.filter(tab => tab.groupId === group.id).map(tab => tab.id),
+    }));
     
-    return { type: 'response', success: true, data: { tabs: filteredTabs, connectedTabId: this._connectedTabId } };
+    return { type: 'response', success: true, data: { tabs: filteredTabs, connectedTabId: this._connectedTabId, sidGroups } };
+  }
+
+  /**
+   * Closes every tab in a Sid tab group. Returns how many tabs were closed.
+   */
+  async closeSidTabs(): Promise<number> {
+    const groupIds = new Set((await this._sidGroups()).map(group => group.id));
+    const tabIds = (await chrome.tabs.query({})).filter(tab => groupIds.has(tab.groupId)).map(tab => tab.id!);
+    debugLog('Closing Sid tabs:', tabIds);
+    if (tabIds.length)
+      await chrome.tabs.remove(tabIds);
+    if (this._connectedTabId && tabIds.includes(this._connectedTabId))
+      this._releaseTab();
+    return tabIds.length;
+  }
+
+  private async _sidGroups(): Promise<chrome.tabGroups.TabGroup[]> {
+    const { [SID_TAB_GROUPS_KEY]: groupIds = [] } = await chrome.storage.session.get(SID_TAB_GROUPS_KEY);
+    // Groups disappear with their last tab.
+    const groups = await Promise.all((groupIds as number[]).map(groupId => chrome.tabGroups.get(groupId).catch(() => undefined)));
+    return groups.filter(group => group !== undefined);
+  }
+
+  // Adds a tab Sid opened to the Sid group of its window, creating the group if needed.
+  private async _addToSidGroup(tabId: number): Promise<void> {
+    try {
+      const tab = await chrome.tabs.get(tabId);
+      const group = (await this._sidGroups()).find(candidate => candidate.windowId === tab.windowId);
+      if (group) {
+        await chrome.tabs.group({ tabIds: tabId, groupId: group.id });
+        return;
+      }
+      const groupId = await chrome.tabs.group({ tabIds: tabId, createProperties: { windowId: tab.windowId } });
+      await chrome.tabGroups.update(groupId, { title: SID_TAB_GROUP_TITLE, color: SID_TAB_GROUP_COLOR });
+      const groupIds = (await this._sidGroups()).map(sidGroup => sidGroup.id);
+      await chrome.storage.session.set({ [SID_TAB_GROUPS_KEY]: [...groupIds, groupId] });
+    } catch (error) {
+      // Grouping is cosmetic (and fails e.g. for tabs in popup windows), so don't fail the command.
+      debugLog('Failed to add tab to the Sid group:', error);
+    }
+  }
+
+  private _tabInfo(tab: chrome.tabs.Tab): TabInfo {
+    return {
+      id: tab.id,
+      windowId: tab.windowId,
+      index: tab.index,
+      title: tab.title,
+      url: tab.url,
+      active: tab.active,
+      pinned: tab.pinned,
+      audible: tab.audible,
+      groupId: tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE ? undefined : tab.groupId,
+      controlled: tab.id === this._connectedTabId,
+    };
+  }
+
+  // Tab commands default to the controlled tab when no tabId is given.
+  private _tabIdOrControlled(tabId: number | undefined): number {
+    const id = tabId ?? this._connectedTabId;
+    if (!id)
+      throw new CommandError('NO_TAB', 'No tab connected');
+    return id;
+  }
+
+  private async _newTab(command: BrowserCommand, signal?: AbortSignal): Promise<BrowserResponse> {
+    debugLog('Opening new tab:', command.url ?? 'about:blank');
+
+    // Sid takes control of the new tab, so following commands act on it. It starts blank
+    // so the load of the requested URL can be observed from the start.
+    const tab = await chrome.tabs.create({ url: 'about:blank', active: command.active !== false, windowId: command.windowId });
+    this._controlTab(tab.id!);
+    await this._addToSidGroup(tab.id!);
+    if (!command.url)
+      return { type: 'response', success: true, data: { tab: this._tabInfo(await chrome.tabs.get(tab.id!)) } };
+
+    const outcome = await navigate(await this._ensureDebuggerAttached(), command.url, command, signal);
+    const data = { tab: this._tabInfo(await chrome.tabs.get(tab.id!)), ...outcome };
+    if (outcome.error) {
+      return { ...errorResponse(outcome.blocked ? 'BLOCKED_BY_POLICY' : 'NAVIGATION_FAILED', outcome.error), data };
+    }
+    return { type: 'response', success: true, data };
+  }
+
+  private async _closeTab(tabId: number | undefined): Promise<BrowserResponse> {
+    const id = this._tabIdOrControlled(tabId);
+    debugLog('Closing tab:', id);
+
+    await chrome.tabs.remove(id);
+    // onRemoved fires asynchronously, don't let a command slip in with the stale tab.
+    if (id === this._connectedTabId)
+      this._releaseTab();
+
+    return { type: 'response', success: true, data: { tabId: id, connectedTabId: this._connectedTabId } };
+  }
+
+  private async _duplicateTab(command: BrowserCommand): Promise<BrowserResponse> {
+    const id = this._tabIdOrControlled(command.tabId);
+    debugLog('Duplicating tab:', id);
+
+    const tab = await chrome.tabs.duplicate(id);
+    if (!tab) {
+      return errorResponse('TAB_NOT_FOUND', 'Tab could not be duplicated');
+    }
+    if (command.active === false)
+      await chrome.tabs.update(id, { active: true });
+    await this._addToSidGroup(tab.id!);
+
+    return { type: 'response', success: true, data: { tab: this._tabInfo(await chrome.tabs.get(tab.id!)) } };
+  }
+
+  private async _pinTab(tabId: number | undefined, pinned: boolean): Promise<BrowserResponse> {
+    const id = this._tabIdOrControlled(tabId);
+    debugLog(pinned ? 'Pinning tab:' : 'Unpinning tab:', id);
+
+    const tab = await chrome.tabs.update(id, { pinned });
+    return { type: 'response', success: true, data: { tab: this._tabInfo(tab!) } };
+  }
+
+  private async _moveTab(command: BrowserCommand): Promise<BrowserResponse> {
+    const id = this._tabIdOrControlled(command.tabId);
+    debugLog('Moving tab:', id, 'to', command.windowId ?? 'same window', 'at', command.index ?? 'end');
+
+    const tab = await chrome.tabs.move(id, { index: command.index ?? -1, windowId: command.windowId });
+    return { type: 'response', success: true, data: { tab: this._tabInfo(tab) } };
+  }
+
+  private async _focusWindow(command: BrowserCommand): Promise<BrowserResponse> {
+    // Without a windowId, focus the window of the given (or controlled) tab.
+    const windowId = command.windowId ?? (await chrome.tabs.get(this._tabIdOrControlled(command.tabId))).windowId;
+    debugLog('Focusing window:', windowId);
+
+    const window = await chrome.windows.update(windowId, { focused: true });
+    return { type: 'response', success: true, data: { windowId: window.id, state: window.state } };
   }
 
   private async _selectTab(tabId: number): Promise<BrowserResponse> {
@@ -270,10 +1107,10 @@ export class SidVoiceConnection {
     
     const tab = await chrome.tabs.get(tabId);
     if (!tab) {
-      return { type: 'response', success: false, error: 'Tab not found' };
+      return errorResponse('TAB_NOT_FOUND', 'Tab not found');
     }
 
-    this._connectedTabId = tabId;
+    this._controlTab(tabId);
     await chrome.tabs.update(tabId, { active: true });
     if (tab.windowId) {
       await chrome.windows.update(tab.windowId, { focused: true });
@@ -282,77 +1119,270 @@ export class SidVoiceConnection {
     return { type: 'response', success: true, data: { tabId } };
   }
 
-  private async _click(selector: string): Promise<BrowserResponse> {
+  private async _click(command: BrowserCommand, signal?: AbortSignal): Promise<BrowserResponse> {
     if (!this._connectedTabId) {
-      return { type: 'response', success: false, error: 'No tab connected' };
+      return errorResponse('NO_TAB', 'No tab connected');
     }
 
-    debugLog('Clicking:', selector);
+    debugLog('Clicking:', describeTarget(command));
     
-    // Use Chrome debugger to execute click
-    await this._ensureDebuggerAttached();
-    
-    await chrome.debugger.sendCommand(this._debuggee, 'Runtime.evaluate', {
-      expression: `document.querySelector('${selector}')?.click()`,
-      userGesture: true,
-    });
+    const page = await this._ensureDebuggerAttached();
+    const { session, objectId } = await page.resolveElement(command);
+    try {
+      let point;
+      try {
+        point = await waitForActionablePoint(session, objectId, command.timeout, signal);
+      } catch (error) {
+        const { code, message, details } = toCommandErrorInfo(error);
+        return errorResponse(code, `Click on ${describeTarget(command)} refused: ${message}`, { reason: message, ...details });
+      }
+      await dispatchClick(page, point, command, signal);
+    } finally {
+      await session.release(objectId);
+    }
 
     return { type: 'response', success: true };
   }
 
-  private async _type(selector: string, text: string): Promise<BrowserResponse> {
+  private async _hover(command: BrowserCommand, signal?: AbortSignal): Promise<BrowserResponse> {
     if (!this._connectedTabId) {
-      return { type: 'response', success: false, error: 'No tab connected' };
+      return errorResponse('NO_TAB', 'No tab connected');
     }
 
-    debugLog('Typing into:', selector, text);
-    
-    await this._ensureDebuggerAttached();
+    debugLog('Hovering:', describeTarget(command));
+
+    const page = await this._ensureDebuggerAttached();
+    const { session, objectId } = await page.resolveElement(command);
+    try {
+      let point;
+      try {
+        point = await waitForActionablePoint(session, objectId, command.timeout, signal);
+      } catch (error) {
+        const { code, message, details } = toCommandErrorInfo(error);
+        return errorResponse(code, `Hover over ${describeTarget(command)} refused: ${message}`, { reason: message, ...details });
+      }
+      await dispatchHover(page, point, signal);
+    } finally {
+      await session.release(objectId);
+    }
+
+    return { type: 'response', success: true };
+  }
+
+  private async _dragAndDrop(command: BrowserCommand, signal?: AbortSignal): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+    if (!command.dropTarget && !command.dropPoint) {
+      return errorResponse('INVALID_PARAMS', 'dragAndDrop needs a dropTarget or a dropPoint');
+    }
+
+    debugLog('Dragging:', describeTarget(command), 'to', command.dropTarget ? describeTarget(command.dropTarget) : command.dropPoint);
+
+    const page = await this._ensureDebuggerAttached();
+    const source = await page.resolveElement(command);
+    const target = command.dropTarget ? await page.resolveElement(command.dropTarget) : undefined;
+    try {
+      let from: Point;
+      let to: Point;
+      try {
+        from = await waitForActionablePoint(source.session, source.objectId, command.timeout, signal);
+        // The drop target may legitimately be covered (e.g. by the dragged card), so only
+        // its position matters here.
+        to = target ? await this._centerOf(target) : command.dropPoint!;
+      } catch (error) {
+        const { code, message, details } = toCommandErrorInfo(error);
+        return errorResponse(code, `Drag of ${describeTarget(command)} refused: ${message}`, { reason: message, ...details });
+      }
+      const result = await dispatchDrag(page, from, to, command.steps, signal);
+      return { type: 'response', success: true, data: result };
+    } finally {
+      await source.session.release(source.objectId);
+      if (target)
+        await target.session.release(target.objectId);
+    }
+  }
+
+  private async _centerOf(element: ElementHandle): Promise<Point> {
+    const box = await element.session.elementBox({ objectId: element.objectId });
+    if (!box)
+      throw new CommandError('NOT_ACTIONABLE', 'Drop target is not visible');
+    return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+  }
+
+  private async _type(command: BrowserCommand, text: string, signal?: AbortSignal): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    debugLog('Typing into:', describeTarget(command), text);
     
-    await chrome.debugger.sendCommand(this._debuggee, 'Runtime.evaluate', {
-      expression: `
-        const el = document.querySelector('${selector}');
-        if (el) {
-          el.value = '${text.replace(/'/g, "\\'")}';
-          el.dispatchEvent(new Event('input', { bubbles: true }));
-        }
-      `,
-      userGesture: true,
-    });
+    const page = await this._ensureDebuggerAttached();
+    const { session, objectId } = await page.resolveElement(command);
+    try {
+      const clear = command.clear !== false;
+      await focusForTyping(session, objectId, clear);
+      if (text)
+        await typeText(page, text, command.delay, signal);
+      else if (clear)
+        await pressKey(page, 'Delete', signal);
+      if (command.submit)
+        await pressKey(page, 'Enter', signal);
+    } finally {
+      await session.release(objectId);
+    }
+
+    return { type: 'response', success: true };
+  }
+
+  private async _press(command: BrowserCommand, key: string, signal?: AbortSignal): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    debugLog('Pressing:', key);
+
+    const page = await this._ensureDebuggerAttached();
+    // Without a target the key goes to whatever element currently has focus.
+    if (hasTarget(command)) {
+      const { session, objectId } = await page.resolveElement(command);
+      try {
+        await session.callOn(objectId, function(this: HTMLElement) {
+          this.focus();
+        });
+      } finally {
+        await session.release(objectId);
+      }
+    }
+    await pressKey(page, key, signal);
 
     return { type: 'response', success: true };
   }
 
+  private async _formControl(command: BrowserCommand, action: (page: PageExecutor, element: string) => Promise<unknown>): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    debugLog(`${command.type}:`, describeTarget(command));
+
+    const page = await this._ensureDebuggerAttached();
+    // The action runs against the session of the element, which differs for out-of-process frames.
+    const { session, objectId } = await page.resolveElement(command);
+    try {
+      const state = await action(session, objectId);
+      return { type: 'response', success: true, data: state };
+    } finally {
+      await session.release(objectId);
+    }
+  }
+
+  private async _scroll(command: BrowserCommand): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    debugLog('Scrolling:', command.to ?? command.direction ?? describeTarget(command));
+
+    // With an element target this scrolls that container, or scrolls the element into view
+    // when no direction is given.
+    const page = await this._ensureDebuggerAttached();
+    const element = hasTarget(command) ? await page.resolveElement(command) : undefined;
+    try {
+      const position = await scroll(element?.session ?? page, element?.objectId, command);
+      return { type: 'response', success: true, data: position };
+    } finally {
+      if (element)
+        await element.session.release(element.objectId);
+    }
+  }
+
+  private async _waitFor(command: BrowserCommand, signal?: AbortSignal): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    const page = await this._ensureDebuggerAttached();
+    const start = Date.now();
+    let value: unknown;
+    if (hasTarget(command)) {
+      await waitForElementState(page, command, command.state ?? 'visible', command.timeout, signal);
+    } else if (command.text !== undefined) {
+      await waitForText(page, command.text, command.timeout, signal);
+    } else if (command.urlPattern !== undefined) {
+      await waitForUrl(page, command.urlPattern, command.timeout, signal);
+    } else if (command.predicate !== undefined) {
+      value = await waitForPredicate(page, command.predicate, command.timeout, signal);
+    } else {
+      return errorResponse('INVALID_PARAMS', 'waitFor needs an element target, text, urlPattern or predicate');
+    }
+
+    return { type: 'response', success: true, data: { ...await this._pageInfo(), elapsed: Date.now() - start, value } };
+  }
+
   private async _getSnapshot(): Promise<BrowserResponse> {
     if (!this._connectedTabId) {
-      return { type: 'response', success: false, error: 'No tab connected' };
+      return errorResponse('NO_TAB', 'No tab connected');
     }
 
-    await this._ensureDebuggerAttached();
+    const page = await this._ensureDebuggerAttached();
     
-    // Get accessibility tree
-    const result = await chrome.debugger.sendCommand(this._debuggee, 'Accessibility.getFullAXTree') as { nodes: unknown[] };
+    // Get accessibility tree (including iframes) and render it as a compact outline with element refs
+    const tree = await page.accessibilityTree();
     
-    return { type: 'response', success: true, data: { snapshot: result.nodes } };
+    return {
+      type: 'response',
+      success: true,
+      data: { ...await this._pageInfo(), snapshot: buildAriaSnapshot(tree) },
+    };
   }
 
-  private async _getScreenshot(): Promise<BrowserResponse> {
+  private async _getScreenshot(command: BrowserCommand): Promise<BrowserResponse> {
     if (!this._connectedTabId) {
-      return { type: 'response', success: false, error: 'No tab connected' };
+      return errorResponse('NO_TAB', 'No tab connected');
     }
 
-    const dataUrl = await chrome.tabs.captureVisibleTab();
-    
-    return { type: 'response', success: true, data: { screenshot: dataUrl } };
+    const page = await this._ensureDebuggerAttached();
+    // With an element target only that element is captured.
+    const element = hasTarget(command) ? await page.resolveElement(command) : undefined;
+    try {
+      if (command.annotate) {
+        const tree = await page.accessibilityTree();
+        const screenshot = await captureAnnotatedScreenshot(page, interactiveElements(tree), command, element);
+        return { type: 'response', success: true, data: screenshot };
+      }
+      const screenshot = await captureScreenshot(page, command, element);
+      return { type: 'response', success: true, data: screenshot };
+    } finally {
+      if (element)
+        await element.session.release(element.objectId);
+    }
+  }
+
+  private async _extractContent(command: BrowserCommand): Promise<BrowserResponse> {
+    if (!this._connectedTabId) {
+      return errorResponse('NO_TAB', 'No tab connected');
+    }
+
+    const page = await this._ensureDebuggerAttached();
+    // With an element target only that region is extracted, boilerplate included.
+    const element = hasTarget(command) ? await page.resolveElement(command) : undefined;
+    try {
+      const content = await extractContent(page, command, element);
+      return { type: 'response', success: true, data: { ...await this._pageInfo(), ...content } };
+    } finally {
+      if (element)
+        await element.session.release(element.objectId);
+    }
   }
 
-  private async _ensureDebuggerAttached(): Promise<void> {
+  private async _ensureDebuggerAttached(): Promise<PageExecutor> {
     if (!this._connectedTabId) {
-      throw new Error('No tab connected');
+      throw new CommandError('NO_TAB', 'No tab connected');
     }
 
-    if (this._debuggee.tabId === this._connectedTabId) {
-      return; // Already attached
+    if (this._page && this._debuggee.tabId === this._connectedTabId) {
+      return this._page; // Already attached
     }
 
     // Detach from old tab if needed
@@ -360,18 +1390,47 @@ export class SidVoiceConnection {
       await chrome.debugger.detach(this._debuggee).catch(() => {});
     }
 
-    this._debuggee = { tabId: this._connectedTabId };
-    await chrome.debugger.attach(this._debuggee, '1.3');
+    // Reset first, so a failed attach does not leave the previous tab's executor looking attached.
+    this._debuggee = {};
+    this._page = null;
+    const debuggee = { tabId: this._connectedTabId };
+    await chrome.debugger.attach(debuggee, '1.3');
+    this._debuggee = debuggee;
+    this._page = new PageExecutor(this._debuggee);
+    this._dialog = null;
+    // Navigation waits rely on Page lifecycle events and document responses.
+    await this._page.send('Page.enable');
+    await this._page.send('Page.setLifecycleEventsEnabled', { enabled: true });
+    await this._page.send('Network.enable');
+    // Console messages and exceptions for getConsoleMessages.
+    await this._page.send('Runtime.enable');
+    await this._page.send('Log.enable');
 
     // Set up event listener
     if (!this._eventListener) {
       this._eventListener = (source, method, params) => {
         if (source.tabId === this._connectedTabId) {
-          debugLog('CDP Event:', method, params);
+          // Only the method: params carry request headers (cookies, tokens) and console output.
+          debugLog('CDP Event:', method);
+          this._page?.dispatchEvent(method, params, source.sessionId);
+          if (!source.sessionId)
+            this._activity.handleEvent(source.tabId, method, params);
+          if (method === 'Page.javascriptDialogOpening' && !source.sessionId) {
+            const { type, message, url, defaultPrompt } = params as JavaScriptDialog;
+            this._onDialogOpening(source.tabId, { type, message, url, defaultPrompt });
+          } else if (method === 'Page.javascriptDialogClosed' && !source.sessionId) {
+            this._dialog = null;
+          }
         }
       };
       chrome.debugger.onEvent.addListener(this._eventListener);
     }
+
+    // Out-of-process iframes are attached as child sessions (reported through the listener
+    // above) so their content can be inspected.
+    await this._page.send('Target.setAutoAttach', { autoAttach: true, waitForDebuggerOnStart: false, flatten: true });
+
+    return this._page;
   }
 
   get isConnected(): boolean {
@@ -385,4 +1444,12 @@ export class SidVoiceConnection {
   get connectedTabId(): number | null {
     return this._connectedTabId;
   }
+
+  get protocolVersion(): number | null {
+    return this._protocolVersion;
+  }
+
+  get status(): SidVoiceStatus {
+    return this._status;
+  }
 }
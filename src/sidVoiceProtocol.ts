@@ -0,0 +1,344 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * The Sid Voice wire protocol: the protocol versions this extension speaks,
+ * the command types it accepts and a JSON Schema for the options of each, all
+ * announced in the `register` handshake so the server knows what it can ask for.
+ * Incoming commands are validated against the same schemas before they run.
+ *
+ * Version history:
+ *   1 - `register` carries only the email
+ *   2 - `register` announces extension version, commands and schemas; `registered` returns the negotiated version
+ *   3 - commands are validated; errors are { code, message, details } instead of a message string
+ *   4 - commands run one at a time per tab with a deadline; `cancel` aborts one by id
+ *   5 - `batch` runs several commands in one round trip
+ */
+
+import { BROWSER_EVENT_TYPES } from './browserEvents';
+import { DIALOG_POLICIES } from './dialogs';
+
+export const SID_VOICE_PROTOCOL_VERSION = 5;
+export const MIN_SID_VOICE_PROTOCOL_VERSION = 1;
+
+export const COMMAND_TYPES = [
+  'navigate', 'goBack', 'goForward', 'reload', 'stop',
+  'newTab', 'closeTab', 'duplicateTab', 'pinTab', 'moveTab', 'focusWindow', 'handleDialog', 'setDialogPolicy',
+  'getConsoleMessages', 'getNetworkRequests',
+  'click', 'hover', 'dragAndDrop', 'type', 'press', 'selectOption', 'check', 'uncheck', 'setInputValue', 'scroll', 'waitFor', 'snapshot', 'screenshot', 'extractContent', 'getTabs', 'selectTab',
+  'batch',
+] as const;
+
+export type CommandType = typeof COMMAND_TYPES[number];
+
+// The subset of JSON Schema used to describe command options.
+export type JsonSchema = {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array';
+  description?: string;
+  enum?: readonly (string | number)[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+};
+
+export type RegisterMessage = {
+  type: 'register';
+  email: string;
+  extensionVersion: string;
+  protocolVersion: number; // Highest version the extension speaks
+  minProtocolVersion: number; // Lowest version the extension still speaks
+  commands: readonly CommandType[];
+  schemas: Record<CommandType, JsonSchema>;
+  events: readonly string[];
+};
+
+const string = (description?: string): JsonSchema => ({ type: 'string', description });
+const integer = (description?: string, minimum?: number): JsonSchema => ({ type: 'integer', description, minimum });
+const number = (description?: string, minimum?: number): JsonSchema => ({ type: 'number', description, minimum });
+const boolean = (description?: string): JsonSchema => ({ type: 'boolean', description });
+const oneOf = (values: readonly string[], description?: string): JsonSchema => ({ type: 'string', enum: values, description });
+
+const locator: JsonSchema = {
+  type: 'object',
+  description: 'Role/name, text, label, placeholder or test id',
+  properties: {
+    role: string('ARIA role, optionally combined with name'),
+    name: string('Accessible name for role locators'),
+    text: string('Visible text content'),
+    label: string('Associated <label>, aria-label or aria-labelledby text'),
+    placeholder: string(),
+    testId: string('data-testid attribute'),
+    exact: boolean('Whole-string, case-sensitive match instead of a substring match'),
+    nth: integer('Pick one of several matches; negative values count from the end'),
+  },
+  additionalProperties: false,
+};
+
+// Element targets: one of these picks the element a command acts on.
+const target: Record<string, JsonSchema> = {
+  ref: string('Element ref from the last snapshot, e.g. "e42"'),
+  locator,
+  selector: string('CSS selector'),
+};
+// Descriptions of anyOf schemas complete "expected ..." in validation errors.
+const requireOneOf = (keys: string[], description: string): JsonSchema => ({
+  anyOf: keys.map(key => ({ required: [key] })),
+  description,
+});
+const requireTarget = requireOneOf(['ref', 'locator', 'selector'], 'one of ref, locator or selector');
+const timeout = number('How long to wait (ms)', 0);
+const tabId = integer('Tab to act on, defaults to the controlled tab');
+const navigation: Record<string, JsonSchema> = {
+  waitUntil: oneOf(['commit', 'domcontentloaded', 'load', 'networkidle'], 'Navigation state to wait for, defaults to load'),
+  timeout,
+};
+
+const optionSpec: JsonSchema[] = [
+  string(),
+  { type: 'object', properties: { value: string(), label: string(), index: integer(undefined, 0) }, additionalProperties: false },
+];
+
+const command = (properties: Record<string, JsonSchema> = {}, required: string[] = [], constraints: JsonSchema[] = []): JsonSchema => ({
+  type: 'object',
+  properties: {
+    type: string(),
+    id: string('Echoed in the response, and used to cancel the command'),
+    commandTimeout: integer('Deadline for the whole command including retries and waits (ms), defaults to the configured command timeout', 1),
+    supersede: boolean('Abort every command still queued or running first'),
+    ...properties,
+  },
+  required: required.length ? required : undefined,
+  additionalProperties: false,
+  allOf: constraints.length ? constraints : undefined,
+});
+
+export const COMMAND_SCHEMAS: Record<CommandType, JsonSchema> = {
+  navigate: command({ url: string(), ...navigation }, ['url']),
+  goBack: command(navigation),
+  goForward: command(navigation),
+  reload: command({ bypassCache: boolean('Reload ignoring the HTTP cache'), ...navigation }),
+  stop: command(),
+  newTab: command({ url: string(), windowId: integer(), active: boolean('Bring the tab to the front, defaults to true'), ...navigation }),
+  closeTab: command({ tabId }),
+  duplicateTab: command({ tabId, active: boolean('Bring the copy to the front, defaults to true') }),
+  pinTab: command({ tabId, pinned: boolean('false to unpin') }),
+  moveTab: command({ tabId, windowId: integer(), index: integer('Position in the window, -1 (default) for the end', -1) }),
+  focusWindow: command({ windowId: integer(), tabId }),
+  handleDialog: command({ accept: boolean('Accept (default) or dismiss the open dialog'), promptText: string('Text to enter into a prompt dialog') }),
+  setDialogPolicy: command({ dialogPolicy: oneOf(DIALOG_POLICIES) }, ['dialogPolicy']),
+  getConsoleMessages: command({
+    level: oneOf(['debug', 'info', 'warning', 'error'], 'Minimum level'),
+    filter: string('Message or URL substring'),
+    since: number('Only entries after this time (ms since epoch)'),
+    limit: integer('Only the most recent entries', 1),
+  }),
+  getNetworkRequests: command({
+    filter: string('URL substring'),
+    resourceType: string('e.g. Document, XHR, Fetch, Script'),
+    since: number('Only entries after this time (ms since epoch)'),
+    limit: integer('Only the most recent entries', 1),
+    har: boolean('Return a HAR 1.2 log instead of the entry list'),
+  }),
+  click: command({
+    ...target,
+    button: oneOf(['left', 'right', 'middle']),
+    clickCount: integer('2 for a double-click', 1),
+    modifiers: { type: 'array', items: oneOf(['Alt', 'Control', 'Meta', 'Shift']), description: 'Keys held during the click' },
+    timeout,
+  }, [], [requireTarget]),
+  hover: command({ ...target, timeout }, [], [requireTarget]),
+  dragAndDrop: command({
+    ...target,
+    dropTarget: { type: 'object', properties: target, additionalProperties: false, allOf: [requireTarget], description: 'Element to drop onto' },
+    dropPoint: { type: 'object', properties: { x: number(), y: number() }, required: ['x', 'y'], description: 'Viewport coordinates to drop at instead of an element' },
+    steps: integer('Intermediate mouse moves, defaults to 10', 1),
+    timeout,
+  }, [], [requireTarget, requireOneOf(['dropTarget', 'dropPoint'], 'a dropTarget or a dropPoint')]),
+  type: command({
+    ...target,
+    text: string(),
+    clear: boolean('Replace the field\'s content, defaults to true'),
+    delay: number('Delay between typed characters (ms); types via key events when set', 0),
+    submit: boolean('Press Enter after typing'),
+  }, ['text'], [requireTarget]),
+  press: command({ ...target, key: string('Key or chord, e.g. "Enter", "Control+Enter", "Escape"') }, ['key']),
+  selectOption: command({
+    ...target,
+    option: {
+      description: 'a value/label string, { value, label, index }, or an array of those for multi-select',
+      anyOf: [...optionSpec, { type: 'array', items: { anyOf: optionSpec } }],
+    },
+  }, ['option'], [requireTarget]),
+  check: command({ ...target, timeout }, [], [requireTarget]),
+  uncheck: command({ ...target, timeout }, [], [requireTarget]),
+  setInputValue: command({ ...target, value: string('e.g. "2024-05-01", "13:30", "75"') }, ['value'], [requireTarget]),
+  scroll: command({
+    ...target,
+    direction: oneOf(['up', 'down', 'left', 'right']),
+    amount: number('How far, defaults to 1 page', 0),
+    unit: oneOf(['pages', 'pixels'], 'Unit of amount, defaults to pages'),
+    to: oneOf(['top', 'bottom'], 'Jump to the start or end'),
+  }),
+  waitFor: command({
+    ...target,
+    state: oneOf(['attached', 'visible', 'hidden', 'detached'], 'Element state, defaults to visible'),
+    text: string('Text that appears on the page'),
+    urlPattern: string('Substring, glob with *, or /regex/flags'),
+    predicate: string('JavaScript expression that becomes truthy'),
+    timeout,
+  }, [], [requireOneOf(['ref', 'locator', 'selector', 'text', 'urlPattern', 'predicate'], 'an element target, text, urlPattern or predicate')]),
+  snapshot: command(),
+  screenshot: command({
+    ...target,
+    fullPage: boolean('Capture the whole scrollable page'),
+    format: oneOf(['png', 'jpeg', 'webp'], 'Defaults to png'),
+    quality: { ...integer('0-100 for jpeg and webp', 0), maximum: 100 },
+    maxDimension: integer('Downscale so the longest side fits (px)', 1),
+    annotate: boolean('Label interactive elements and return a label -> ref map'),
+  }),
+  extractContent: command({
+    ...target,
+    maxLength: integer('Characters per chunk, defaults to 10000', 1),
+    cursor: string('nextCursor of the previous chunk'),
+    includeLinks: boolean('Render links as [text](url)'),
+  }),
+  getTabs: command(),
+  selectTab: command({ tabId: integer() }, ['tabId']),
+  batch: command({
+    commands: {
+      type: 'array',
+      items: { type: 'object', properties: { type: string() }, required: ['type'] },
+      minItems: 1,
+      description: 'Commands to run in order; each is validated against its own schema and may not be a batch',
+    },
+    onError: oneOf(['stop', 'continue'], 'Skip the remaining commands after a failure (default) or run them anyway'),
+    snapshot: boolean('Take a snapshot after the last command, also when one failed'),
+  }, ['commands']),
+};
+
+export function isCommandType(value: unknown): value is CommandType {
+  return COMMAND_TYPES.includes(value as CommandType);
+}
+
+export function registerMessage(email: string): RegisterMessage {
+  return {
+    type: 'register',
+    email,
+    extensionVersion: chrome.runtime.getManifest().version,
+    protocolVersion: SID_VOICE_PROTOCOL_VERSION,
+    minProtocolVersion: MIN_SID_VOICE_PROTOCOL_VERSION,
+    commands: COMMAND_TYPES,
+    schemas: COMMAND_SCHEMAS,
+    events: BROWSER_EVENT_TYPES,
+  };
+}
+
+/**
+ * Returns the version the server settled on in `registered`, or undefined when this extension
+ * does not speak it. Servers predating the negotiation send none and speak version 1.
+ */
+export function negotiatedProtocolVersion(registered: { protocolVersion?: unknown }): number | undefined {
+  const version = registered.protocolVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version))
+    return undefined;
+  if (version < MIN_SID_VOICE_PROTOCOL_VERSION || version > SID_VOICE_PROTOCOL_VERSION)
+    return undefined;
+  return version;
+}
+
+/**
+ * Checks `value` against `schema` and returns one message per problem, e.g. "url: expected string, got number".
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = ''): string[] {
+  const at = path || 'command';
+  if (schema.type && !hasType(value, schema.type))
+    return [`${at}: expected ${schema.type}, got ${describeType(value)}`];
+
+  const problems: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number))
+    problems.push(`${at}: expected one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}`);
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum)
+    problems.push(`${at}: must be at least ${schema.minimum}`);
+  if (typeof value === 'number' && schema.maximum !== undefined && value > schema.maximum)
+    problems.push(`${at}: must be at most ${schema.maximum}`);
+
+  if (isRecord(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined)
+        problems.push(`${childPath(path, key)}: is required`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (property)
+        problems.push(...validateSchema(property, child, childPath(path, key)));
+      else if (schema.additionalProperties === false)
+        problems.push(`${childPath(path, key)}: unknown option`);
+    }
+  }
+  if (Array.isArray(value) && schema.minItems !== undefined && value.length < schema.minItems)
+    problems.push(`${at}: needs at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+  if (Array.isArray(value) && schema.items)
+    value.forEach((item, index) => problems.push(...validateSchema(schema.items!, item, `${at}[${index}]`)));
+
+  if (schema.anyOf && !schema.anyOf.some(option => validateSchema(option, value, path).length === 0))
+    problems.push(`${at}: expected ${schema.description ?? 'a value matching one of the allowed forms'}`);
+  for (const constraint of schema.allOf ?? [])
+    problems.push(...validateSchema(constraint, value, path));
+  return problems;
+}
+
+/**
+ * Validates a message whose type is a command type against that command's schema,
+ * and each command of a batch against its own.
+ */
+export function validateCommand(message: { type: CommandType; commands?: unknown }): string[] {
+  const problems = validateSchema(COMMAND_SCHEMAS[message.type], message);
+  if (message.type !== 'batch' || problems.length)
+    return problems;
+  (message.commands as { type: string }[]).forEach((step, index) => {
+    const path = `commands[${index}]`;
+    if (step.type === 'batch')
+      problems.push(`${path}: batches cannot be nested`);
+    else if (!isCommandType(step.type))
+      problems.push(`${path}.type: unknown command ${JSON.stringify(step.type)}`);
+    else
+      problems.push(...validateSchema(COMMAND_SCHEMAS[step.type], step, path));
+  });
+  return problems;
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null)
+    return 'null';
+  if (Array.isArray(value))
+    return 'array';
+  return typeof value;
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
@@ -12,14 +12,18 @@
 import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
 import { Button, TabItem } from './tabItem';
+import { DEFAULT_COMMAND_TIMEOUT } from '../commandQueue';
 
 import type { TabInfo } from './tabItem';
+import type { SidVoiceStatus as SidVoiceState } from '../sidVoiceConnection';
 import { AuthTokenSection } from './authToken';
 
 interface SidVoiceStatus {
   connected: boolean;
   email?: string;
   connectedTabId?: number | null;
+  protocolVersion?: number | null;
+  status?: SidVoiceState;
 }
 
 interface ConnectionStatus {
@@ -39,19 +43,27 @@ const StatusApp: React.FC = () => {
   const [useStaging, setUseStaging] = useState(false);
   const [connecting, setConnecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [closeTabsOnDisconnect, setCloseTabsOnDisconnect] = useState(false);
+  // In seconds, as typed; only valid values are saved.
+  const [commandTimeout, setCommandTimeout] = useState(String(DEFAULT_COMMAND_TIMEOUT / 1000));
+  const [now, setNow] = useState(Date.now());
+  const sidVoiceState = status.sidVoice.status;
 
   useEffect(() => {
     void loadStatus();
     void loadSavedEmail();
 
     // Listen for Sid Voice status updates
-    const listener = (message: { type: string; connected?: boolean; email?: string }) => {
+    const listener = (message: { type: string } & Partial<SidVoiceStatus>) => {
       if (message.type === 'sidVoiceStatusUpdate') {
         setStatus(prev => ({
           ...prev,
           sidVoice: {
             connected: message.connected || false,
-            email: message.email
+            email: message.email,
+            connectedTabId: message.connectedTabId,
+            protocolVersion: message.protocolVersion,
+            status: message.status
           }
         }));
       }
@@ -60,14 +72,27 @@ const StatusApp: React.FC = () => {
     return () => chrome.runtime.onMessage.removeListener(listener);
   }, []);
 
+  // Tick the "reconnecting in N s" countdown
+  useEffect(() => {
+    if (sidVoiceState?.state !== 'reconnecting')
+      return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [sidVoiceState]);
+
   const loadSavedEmail = async () => {
-    const result = await chrome.storage.local.get(['sidVoiceEmail', 'sidVoiceServer']);
+    const result = await chrome.storage.local.get(['sidVoiceEmail', 'sidVoiceServer', 'sidVoiceCloseTabsOnDisconnect', 'sidVoiceCommandTimeout']);
     if (result.sidVoiceEmail) {
       setEmail(result.sidVoiceEmail);
     }
     if (result.sidVoiceServer?.includes('stage')) {
       setUseStaging(true);
     }
+    setCloseTabsOnDisconnect(!!result.sidVoiceCloseTabsOnDisconnect);
+    if (typeof result.sidVoiceCommandTimeout === 'number') {
+      setCommandTimeout(String(result.sidVoiceCommandTimeout / 1000));
+    }
   };
 
   const loadStatus = async () => {
@@ -145,6 +170,35 @@ const StatusApp: React.FC = () => {
     }
   };
 
+  const closeSidTabs = async () => {
+    try {
+      await chrome.runtime.sendMessage({ type: 'closeSidTabs' });
+    } catch (err) {
+      console.error('Failed to close Sid tabs:', err);
+    }
+  };
+
+  const updateCloseTabsOnDisconnect = async (enabled: boolean) => {
+    setCloseTabsOnDisconnect(enabled);
+    await chrome.storage.local.set({ sidVoiceCloseTabsOnDisconnect: enabled });
+  };
+
+  const updateCommandTimeout = async (seconds: string) => {
+    setCommandTimeout(seconds);
+    if (isValidCommandTimeout(seconds)) {
+      await chrome.storage.local.set({ sidVoiceCommandTimeout: Math.round(Number(seconds) * 1000) });
+    }
+  };
+
+  const retrySidVoice = async () => {
+    try {
+      await chrome.runtime.sendMessage({ type: 'retrySidVoice' });
+    } catch (err) {
+      console.error('Failed to retry:', err);
+    }
+    void loadStatus();
+  };
+
   const disconnectFromSidVoice = async () => {
     try {
       await chrome.runtime.sendMessage({ type: 'disconnectFromSidVoice' });
@@ -174,7 +228,7 @@ const StatusApp: React.FC = () => {
               width: '10px', 
               height: '10px', 
               borderRadius: '50%', 
-              backgroundColor: status.sidVoice.connected ? '#2da44e' : '#cf222e',
+              backgroundColor: status.sidVoice.connected ? '#2da44e' : isRetrying(sidVoiceState) ? '#bf8700' : '#cf222e',
               marginRight: '8px'
             }} />
             <strong style={{ fontSize: '14px' }}>Sid Voice</strong>
@@ -187,10 +241,61 @@ const StatusApp: React.FC = () => {
               </div>
               <p className='auth-token-description'>
                 Sid can now control your browser via voice commands. Try saying "Show me SID-262" or "Open Jira".
+                Tabs Sid opens are kept in the "Sid" tab group.
               </p>
-              <Button variant='reject' onClick={disconnectFromSidVoice}>
-                Disconnect
-              </Button>
+              <div style={{ marginBottom: '12px' }}>
+                <label style={{ display: 'flex', alignItems: 'center', fontSize: '13px', cursor: 'pointer' }}>
+                  <input
+                    type='checkbox'
+                    checked={closeTabsOnDisconnect}
+                    onChange={(e) => updateCloseTabsOnDisconnect(e.target.checked)}
+                    style={{ marginRight: '8px' }}
+                  />
+                  Close Sid tabs when disconnecting
+                </label>
+              </div>
+              <div style={{ marginBottom: '12px' }}>
+                <label style={{ display: 'flex', alignItems: 'center', fontSize: '13px' }}>
+                  Give up on a command after
+                  <input
+                    type='number'
+                    min={1}
+                    value={commandTimeout}
+                    onChange={(e) => updateCommandTimeout(e.target.value)}
+                    style={{
+                      width: '64px',
+                      margin: '0 6px',
+                      padding: '2px 6px',
+                      fontSize: '13px',
+                      border: `1px solid ${isValidCommandTimeout(commandTimeout) ? '#d0d7de' : '#cf222e'}`,
+                      borderRadius: '6px'
+                    }}
+                  />
+                  seconds
+                </label>
+              </div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <Button variant='default' onClick={closeSidTabs}>
+                  Close all Sid tabs
+                </Button>
+                <Button variant='reject' onClick={disconnectFromSidVoice}>
+                  Disconnect
+                </Button>
+              </div>
+            </div>
+          ) : isRetrying(sidVoiceState) ? (
+            <div>
+              <div style={{ marginBottom: '12px', fontSize: '13px', color: '#1f2328' }}>
+                {describeRetry(sidVoiceState, status.sidVoice.email, now)}
+              </div>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <Button variant='primary' onClick={retrySidVoice}>
+                  Retry now
+                </Button>
+                <Button variant='reject' onClick={disconnectFromSidVoice}>
+                  Disconnect
+                </Button>
+              </div>
             </div>
           ) : (
             <div>
@@ -229,6 +334,19 @@ const StatusApp: React.FC = () => {
                 </label>
               </div>
 
+              {(sidVoiceState?.state === 'incompatible' || sidVoiceState?.state === 'authFailed') && (
+                <div style={{ 
+                  padding: '8px 12px', 
+                  marginBottom: '12px',
+                  backgroundColor: '#ffebe9', 
+                  color: '#cf222e',
+                  borderRadius: '6px',
+                  fontSize: '13px'
+                }}>
+                  <strong>{sidVoiceState.state === 'incompatible' ? 'Incompatible Sid Voice server.' : 'Sign-in failed.'}</strong> {sidVoiceState.message}
+                </div>
+              )}
+
               {error && (
                 <div style={{ 
                   padding: '8px 12px', 
@@ -285,6 +403,29 @@ const StatusApp: React.FC = () => {
   );
 };
 
+// At least a second; longer waits of a command (e.g. a 45s waitFor) extend it anyway.
+function isValidCommandTimeout(seconds: string): boolean {
+  return seconds.trim() !== '' && Number(seconds) >= 1;
+}
+
+// States in which the extension is still trying to (re)connect on its own.
+function isRetrying(state?: SidVoiceState): state is Extract<SidVoiceState, { state: 'connecting' | 'reconnecting' | 'offline' }> {
+  return state?.state === 'connecting' || state?.state === 'reconnecting' || state?.state === 'offline';
+}
+
+function describeRetry(state: Extract<SidVoiceState, { state: 'connecting' | 'reconnecting' | 'offline' }>, email: string | undefined, now: number): string {
+  switch (state.state) {
+    case 'connecting':
+      return email ? `Connecting as ${email}...` : 'Connecting...';
+    case 'reconnecting': {
+      const seconds = Math.max(0, Math.ceil((state.retryAt - now) / 1000));
+      return `Connection lost. Reconnecting in ${seconds}s (attempt ${state.attempt})...`;
+    }
+    case 'offline':
+      return 'You are offline. Sid Voice reconnects when the network is back.';
+  }
+}
+
 // Initialize the React app
 const container = document.getElementById('root');
 if (container) {
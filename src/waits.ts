@@ -0,0 +1,128 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Polling waits for Sid Voice multi-step flows: element states, text on the
+ * page, the page URL and arbitrary JavaScript predicates. Every wait has a
+ * deadline and fails with a message describing what never happened.
+ */
+
+import { describeTarget } from './pageExecutor';
+import { CommandError } from './commandErrors';
+
+import type { PageExecutor, ElementTarget } from './pageExecutor';
+
+export const DEFAULT_WAIT_TIMEOUT = 30000;
+
+export type ElementState = 'attached' | 'visible' | 'hidden' | 'detached';
+
+const POLL_INTERVAL = 200;
+
+/**
+ * Calls `check` until it returns a value other than undefined, or throws once `timeout` expires
+ * or `signal` aborts.
+ */
+async function poll<T>(check: () => Promise<T | undefined>, timeout: number, description: string, signal?: AbortSignal): Promise<T> {
+  const deadline = Date.now() + timeout;
+  while (true) {
+    signal?.throwIfAborted();
+    const result = await check();
+    if (result !== undefined)
+      return result;
+    if (Date.now() >= deadline)
+      throw new CommandError('TIMEOUT', `Timed out after ${timeout}ms waiting for ${description}`);
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+  }
+}
+
+export async function waitForElementState(page: PageExecutor, target: ElementTarget, state: ElementState, timeout: number = DEFAULT_WAIT_TIMEOUT, signal?: AbortSignal): Promise<void> {
+  if (!['attached', 'visible', 'hidden', 'detached'].includes(state))
+    throw new CommandError('INVALID_PARAMS', `Unknown element state: ${state}`);
+  await poll(async () => {
+    const element = await page.queryElement(target).catch(ignoreNavigationErrors);
+    if (!element)
+      return state === 'hidden' || state === 'detached' ? true : undefined;
+    try {
+      if (state === 'attached')
+        return true;
+      if (state === 'detached')
+        return undefined;
+      const visible = await element.session.callOn(element.objectId, isVisibleInPage);
+      return visible === (state === 'visible') ? true : undefined;
+    } finally {
+      await element.session.release(element.objectId);
+    }
+  }, timeout, `${describeTarget(target)} to be ${state}`, signal);
+}
+
+export async function waitForText(page: PageExecutor, text: string, timeout: number = DEFAULT_WAIT_TIMEOUT, signal?: AbortSignal): Promise<void> {
+  await poll(async () => {
+    const found = await page.evaluate(function(expected: string) {
+      const normalize = (value: string) => value.replace(/\s+/g, ' ').trim().toLowerCase();
+      return normalize(this.body?.innerText ?? '').includes(normalize(expected));
+    }, text).catch(ignoreNavigationErrors);
+    return found ? true : undefined;
+  }, timeout, `text ${JSON.stringify(text)} to appear`, signal);
+}
+
+/**
+ * Waits until the main frame URL matches `pattern`: a regular expression written as
+ * "/.../flags", a glob where `*` matches any characters, or otherwise a substring.
+ */
+export async function waitForUrl(page: PageExecutor, pattern: string, timeout: number = DEFAULT_WAIT_TIMEOUT, signal?: AbortSignal): Promise<string> {
+  const matches = urlMatcher(pattern);
+  return await poll(async () => {
+    const { frameTree } = await page.send<{ frameTree: { frame: { url: string } } }>('Page.getFrameTree');
+    return matches(frameTree.frame.url) ? frameTree.frame.url : undefined;
+  }, timeout, `URL to match ${pattern}`, signal);
+}
+
+/**
+ * Waits until the JavaScript expression `predicate` evaluates to a truthy value in the page.
+ * Exceptions thrown by the expression fail the wait immediately.
+ */
+export async function waitForPredicate(page: PageExecutor, predicate: string, timeout: number = DEFAULT_WAIT_TIMEOUT, signal?: AbortSignal): Promise<unknown> {
+  return await poll(async () => {
+    const response = await page.send<{ result: { value?: unknown }; exceptionDetails?: { text: string; exception?: { description?: string } } }>('Runtime.evaluate', {
+      expression: predicate,
+      returnByValue: true,
+      awaitPromise: true,
+    }).catch(ignoreNavigationErrors);
+    if (!response)
+      return undefined;
+    if (response.exceptionDetails)
+      throw new CommandError('SCRIPT_ERROR', `Predicate threw: ${response.exceptionDetails.exception?.description ?? response.exceptionDetails.text}`);
+    return response.result.value ? response.result.value : undefined;
+  }, timeout, `predicate ${JSON.stringify(predicate)} to be truthy`, signal);
+}
+
+function urlMatcher(pattern: string): (url: string) => boolean {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    let expression: RegExp;
+    try {
+      expression = new RegExp(regex[1], regex[2]);
+    } catch (error) {
+      throw new CommandError('INVALID_PARAMS', `Invalid urlPattern ${pattern}: ${error instanceof Error ? error.message : error}`);
+    }
+    return url => expression.test(url);
+  }
+  if (pattern.includes('*')) {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    const expression = new RegExp(`^${escaped}$`);
+    return url => expression.test(url);
+  }
+  return url => url.includes(pattern);
+}
+
+// The page may be between documents while polling; treat that as "not yet" and rethrow anything else.
+function ignoreNavigationErrors(error: unknown): undefined {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/context with specified id|context was destroyed|target navigated or closed|No node with given id/i.test(message))
+    return undefined;
+  throw error;
+}
+
+function isVisibleInPage(this: Element): boolean {
+  const rect = this.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0 && getComputedStyle(this).visibility === 'visible';
+}
@@ -0,0 +1,178 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Ordering, cancellation, superseding and deadlines of queued Sid Voice commands.
+ */
+
+import { test, expect } from '@playwright/test';
+import { CommandError } from '../src/commandErrors';
+import { CommandQueue, withDeadline } from '../src/commandQueue';
+
+// A command that runs until `finish` is called, logging when it starts and whether its signal aborted.
+function pendingCommand(log: string[], name: string) {
+  let finish!: () => void;
+  let signal: AbortSignal | undefined;
+  const execute = (abortSignal: AbortSignal) => {
+    signal = abortSignal;
+    log.push(`start ${name}`);
+    return new Promise<string>(resolve => finish = () => {
+      log.push(`end ${name}`);
+      resolve(name);
+    });
+  };
+  return { execute, finish: () => finish(), aborted: () => !!signal?.aborted };
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+test('runs commands with the same key one at a time, in order', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const first = pendingCommand(log, 'first');
+  const second = pendingCommand(log, 'second');
+  const firstResult = queue.run('tab', { type: 'click' }, 1000, first.execute);
+  const secondResult = queue.run('tab', { type: 'click' }, 1000, second.execute);
+  await tick();
+  expect(log).toEqual(['start first']);
+  first.finish();
+  expect(await firstResult).toBe('first');
+  await tick();
+  second.finish();
+  expect(await secondResult).toBe('second');
+  expect(log).toEqual(['start first', 'end first', 'start second', 'end second']);
+});
+
+test('runs commands with different keys side by side', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const first = pendingCommand(log, 'first');
+  const second = pendingCommand(log, 'second');
+  const results = [queue.run(1, { type: 'click' }, 1000, first.execute), queue.run(2, { type: 'click' }, 1000, second.execute)];
+  await tick();
+  expect(log).toEqual(['start first', 'start second']);
+  first.finish();
+  second.finish();
+  await Promise.all(results);
+});
+
+test('cancels a queued command without running it', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const first = pendingCommand(log, 'first');
+  const second = pendingCommand(log, 'second');
+  const firstResult = queue.run('tab', { type: 'click', id: 'a' }, 1000, first.execute);
+  const secondResult = queue.run('tab', { type: 'type', id: 'b' }, 1000, second.execute);
+  expect(queue.cancel('b')).toEqual({ id: 'b', type: 'type', state: 'queued' });
+  await expect(secondResult).rejects.toMatchObject({ code: 'CANCELLED', details: { state: 'queued' } });
+  first.finish();
+  await firstResult;
+  await tick();
+  expect(log).toEqual(['start first', 'end first']);
+  expect(queue.cancel('b')).toBeUndefined();
+});
+
+test('cancels a running command, aborts its signal and moves on', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const first = pendingCommand(log, 'first');
+  const second = pendingCommand(log, 'second');
+  const firstResult = queue.run('tab', { type: 'click', id: 'a' }, 1000, first.execute);
+  const secondResult = queue.run('tab', { type: 'click', id: 'b' }, 1000, second.execute);
+  await tick();
+  expect(queue.cancel('a')).toEqual({ id: 'a', type: 'click', state: 'running' });
+  await expect(firstResult).rejects.toMatchObject({ code: 'CANCELLED' });
+  expect(first.aborted()).toBe(true);
+  await tick();
+  expect(log).toEqual(['start first', 'start second']);
+  second.finish();
+  expect(await secondResult).toBe('second');
+});
+
+test('supersedes the commands the new one replaces', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const navigation = pendingCommand(log, 'navigation');
+  const click = pendingCommand(log, 'click');
+  const nextNavigation = pendingCommand(log, 'next navigation');
+  const navigationResult = queue.run('tab', { type: 'navigate', id: 'n1' }, 1000, navigation.execute);
+  const clickResult = queue.run('tab', { type: 'click', id: 'c1' }, 1000, click.execute);
+  await tick();
+  const nextResult = queue.run('tab', { type: 'navigate', id: 'n2' }, 1000, nextNavigation.execute, task => task.type === 'navigate');
+  await expect(navigationResult).rejects.toMatchObject({ code: 'SUPERSEDED', details: { supersededBy: 'n2' } });
+  expect(navigation.aborted()).toBe(true);
+  // The click is not a navigation, so it still runs, before the new navigation.
+  await tick();
+  click.finish();
+  expect(await clickResult).toBe('click');
+  await tick();
+  nextNavigation.finish();
+  expect(await nextResult).toBe('next navigation');
+  expect(log).toEqual(['start navigation', 'start click', 'end click', 'start next navigation', 'end next navigation']);
+});
+
+test('times out a command that runs past its deadline', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const slow = pendingCommand(log, 'slow');
+  const next = pendingCommand(log, 'next');
+  const slowResult = queue.run('tab', { type: 'waitFor' }, 20, slow.execute);
+  const nextResult = queue.run('tab', { type: 'click' }, 1000, next.execute);
+  await expect(slowResult).rejects.toMatchObject({ code: 'TIMEOUT', details: { commandTimeout: 20 } });
+  expect(slow.aborted()).toBe(true);
+  await tick();
+  next.finish();
+  expect(await nextResult).toBe('next');
+});
+
+test('does not count the time spent queued against the deadline', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const first = pendingCommand(log, 'first');
+  const firstResult = queue.run('tab', { type: 'click' }, 1000, first.execute);
+  const secondResult = queue.run('tab', { type: 'click' }, 30, async () => 'second');
+  await new Promise(resolve => setTimeout(resolve, 60));
+  first.finish();
+  await firstResult;
+  expect(await secondResult).toBe('second');
+});
+
+test('cancels every queued and running command', async () => {
+  const queue = new CommandQueue();
+  const log: string[] = [];
+  const results = [
+    queue.run(1, { type: 'click' }, 1000, pendingCommand(log, 'running').execute),
+    queue.run(1, { type: 'click' }, 1000, pendingCommand(log, 'queued').execute),
+    queue.run(2, { type: 'click' }, 1000, pendingCommand(log, 'other tab').execute),
+  ];
+  await tick();
+  queue.cancelAll('The connection closed');
+  for (const result of results)
+    await expect(result).rejects.toMatchObject({ code: 'CANCELLED', message: 'The connection closed' });
+  expect(log).toEqual(['start running', 'start other tab']);
+});
+
+test('withDeadline aborts the step signal when the step times out', async () => {
+  const log: string[] = [];
+  const step = pendingCommand(log, 'step');
+  const result = withDeadline('type', 20, new AbortController().signal, step.execute);
+  await expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+  expect(step.aborted()).toBe(true);
+});
+
+test('withDeadline rejects and aborts the step when the outer signal aborts', async () => {
+  const log: string[] = [];
+  const step = pendingCommand(log, 'step');
+  const controller = new AbortController();
+  const result = withDeadline('type', 1000, controller.signal, step.execute);
+  controller.abort(new CommandError('CANCELLED', 'Cancelled'));
+  await expect(result).rejects.toMatchObject({ code: 'CANCELLED' });
+  expect(step.aborted()).toBe(true);
+});
+
+test('withDeadline does not start a step once the outer signal aborted', async () => {
+  const log: string[] = [];
+  const controller = new AbortController();
+  controller.abort(new Error('Cancelled'));
+  await expect(withDeadline('type', 1000, controller.signal, pendingCommand(log, 'step').execute)).rejects.toThrow('Cancelled');
+  expect(log).toEqual([]);
+});
@@ -0,0 +1,74 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Key events sent for the chords of the pressKey command.
+ */
+
+import { test, expect } from '@playwright/test';
+import { pressKey } from '../src/input';
+
+import type { PageExecutor } from '../src/pageExecutor';
+
+// Presses `chord` on a page that only records the key events, as "type key modifiers [text]".
+async function press(chord: string, signal?: AbortSignal, events: string[] = []): Promise<string[]> {
+  const send = async (method: string, params: { type: string; key: string; modifiers: number; text?: string }) => {
+    expect(method).toBe('Input.dispatchKeyEvent');
+    events.push([params.type, params.key, params.modifiers, ...(params.text ? [JSON.stringify(params.text)] : [])].join(' '));
+  };
+  const page = { send } as unknown as PageExecutor;
+  await pressKey(Object.assign(page, { top: page }), chord, signal);
+  return events;
+}
+
+test('presses a single key', async () => {
+  expect(await press('Enter')).toEqual(['keyDown Enter 0 "\\r"', 'keyUp Enter 0']);
+  expect(await press('a')).toEqual(['keyDown a 0 "a"', 'keyUp a 0']);
+});
+
+test('holds the modifiers of a chord around the key', async () => {
+  expect(await press('Control+Enter')).toEqual([
+    'rawKeyDown Control 2',
+    'rawKeyDown Enter 2',
+    'keyUp Enter 2',
+    'keyUp Control 0',
+  ]);
+  expect(await press('Control+Shift+Tab')).toEqual([
+    'rawKeyDown Control 2',
+    'rawKeyDown Shift 10',
+    'rawKeyDown Tab 10',
+    'keyUp Tab 10',
+    'keyUp Shift 2',
+    'keyUp Control 0',
+  ]);
+});
+
+test('inserts text for chords with Shift only', async () => {
+  expect(await press('Shift+a')).toEqual(['rawKeyDown Shift 8', 'keyDown a 8 "a"', 'keyUp a 8', 'keyUp Shift 0']);
+  expect(await press('Alt+a')).toEqual(['rawKeyDown Alt 1', 'rawKeyDown a 1', 'keyUp a 1', 'keyUp Alt 0']);
+});
+
+test('accepts common key aliases', async () => {
+  expect(await press('Ctrl+Esc')).toEqual(['rawKeyDown Control 2', 'rawKeyDown Escape 2', 'keyUp Escape 2', 'keyUp Control 0']);
+  expect(await press('Cmd + Up')).toEqual(['rawKeyDown Meta 4', 'rawKeyDown ArrowUp 4', 'keyUp ArrowUp 4', 'keyUp Meta 0']);
+});
+
+test('reads a trailing "+" as the plus key', async () => {
+  expect(await press('Control++')).toEqual(['rawKeyDown Control 2', 'rawKeyDown + 2', 'keyUp + 2', 'keyUp Control 0']);
+  expect(await press('+')).toEqual(['keyDown + 0 "+"', 'keyUp + 0']);
+});
+
+test('rejects unknown keys and modifiers without sending events', async () => {
+  const events: string[] = [];
+  await expect(press('Control+Launch', undefined, events)).rejects.toMatchObject({ code: 'INVALID_PARAMS', message: 'Unknown key "Launch" in "Control+Launch"' });
+  await expect(press('Hyper+a', undefined, events)).rejects.toMatchObject({ code: 'INVALID_PARAMS', message: 'Unknown modifier key "Hyper" in "Hyper+a"' });
+  await expect(press('Tab+a', undefined, events)).rejects.toMatchObject({ code: 'INVALID_PARAMS' });
+  expect(events).toEqual([]);
+});
+
+test('sends nothing once the signal aborted', async () => {
+  const controller = new AbortController();
+  controller.abort(new Error('Cancelled'));
+  const events: string[] = [];
+  await expect(press('Control+Enter', controller.signal, events)).rejects.toThrow('Cancelled');
+  expect(events).toEqual([]);
+});
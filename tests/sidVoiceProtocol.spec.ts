@@ -0,0 +1,47 @@
+/**
+ * SimpliDev Browser Extension
+ *
+ * Validation of Sid Voice commands against the schemas announced in the handshake.
+ */
+
+import { test, expect } from '@playwright/test';
+import { validateCommand } from '../src/sidVoiceProtocol';
+
+// Messages come off the wire untyped.
+const validate = (message: Record<string, unknown>) => validateCommand(message as Parameters<typeof validateCommand>[0]);
+
+test('accepts a valid command', async () => {
+  expect(validate({ type: 'navigate', url: 'https://example.com', waitUntil: 'commit', timeout: 1000 })).toEqual([]);
+  expect(validate({ type: 'click', ref: 'e42', clickCount: 2, modifiers: ['Shift'] })).toEqual([]);
+});
+
+test('reports missing, mistyped and unknown options', async () => {
+  expect(validate({ type: 'navigate' })).toEqual(['url: is required']);
+  expect(validate({ type: 'navigate', url: 42 })).toEqual(['url: expected string, got number']);
+  expect(validate({ type: 'navigate', url: 'https://example.com', fast: true })).toEqual(['fast: unknown option']);
+  expect(validate({ type: 'type', ref: 'e1', text: 'hi', timeout: 1000 })).toEqual(['timeout: unknown option']);
+});
+
+test('reports enum and range problems', async () => {
+  expect(validate({ type: 'goBack', waitUntil: 'idle' })).toEqual(['waitUntil: expected one of commit, domcontentloaded, load, networkidle, got "idle"']);
+  expect(validate({ type: 'click', ref: 'e1', clickCount: 0 })).toEqual(['clickCount: must be at least 1']);
+  expect(validate({ type: 'screenshot', quality: 101 })).toEqual(['quality: must be at most 100']);
+  expect(validate({ type: 'click', ref: 'e1', modifiers: ['Hyper'] })).toEqual(['modifiers[0]: expected one of Alt, Control, Meta, Shift, got "Hyper"']);
+});
+
+test('requires an element target', async () => {
+  expect(validate({ type: 'click' })).toEqual(['command: expected one of ref, locator or selector']);
+  expect(validate({ type: 'dragAndDrop', ref: 'e1' })).toEqual(['command: expected a dropTarget or a dropPoint']);
+  expect(validate({ type: 'click', locator: { role: 'button', color: 'red' } })).toEqual(['locator.color: unknown option']);
+});
+
+test('validates each command of a batch against its own schema', async () => {
+  expect(validate({ type: 'batch', commands: [{ type: 'click', ref: 'e1' }, { type: 'navigate' }] })).toEqual(['commands[1].url: is required']);
+  expect(validate({ type: 'batch', commands: [{ type: 'teleport' }] })).toEqual(['commands[0].type: unknown command "teleport"']);
+  expect(validate({ type: 'batch', commands: [] })).toEqual(['commands: needs at least 1 item']);
+  expect(validate({ type: 'batch', commands: [{ type: 'snapshot' }], onError: 'continue', snapshot: true })).toEqual([]);
+});
+
+test('does not allow nested batches', async () => {
+  expect(validate({ type: 'batch', commands: [{ type: 'snapshot' }, { type: 'batch', commands: [{ type: 'snapshot' }] }] })).toEqual(['commands[1]: batches cannot be nested']);
+});